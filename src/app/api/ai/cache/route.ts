@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isAdmin } from '@/lib/admin'
+import { sharedCache } from '@/lib/ai-server'
+
+// GET - Size and hit rate of the shared AI result cache
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    return NextResponse.json({ stats: await sharedCache.stats() })
+
+  } catch (error) {
+    console.error('Cache stats error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Empty the shared cache, e.g. after changing prompts
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    await sharedCache.clear()
+
+    return NextResponse.json({ message: 'Cache cleared' })
+
+  } catch (error) {
+    console.error('Cache clear error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
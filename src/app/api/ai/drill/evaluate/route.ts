@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { aiErrorResponse, getAIService, getPracticeSessionId } from '@/lib/ai-server'
+import { EvaluationUnavailableError } from '@/lib/evaluation'
+import { criterionKeySchema, drillMetricsSchema } from '@/lib/schemas'
+
+const drillEvaluateSchema = z.object({
+  criterion: criterionKeySchema,
+  question: z.string().min(1, 'Question is required').max(1500),
+  response: z.string().min(1, 'Response is required'),
+  metrics: drillMetricsSchema.optional()
+})
+
+// POST - Band a drill answer against its one criterion
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { criterion, question, response, metrics } = drillEvaluateSchema.parse(body)
+
+    const aiService = await getAIService(session.user.id, getPracticeSessionId(request))
+    const evaluation = await aiService.evaluateDrillResponse(criterion, question, response, metrics)
+
+    return NextResponse.json({ evaluation })
+
+  } catch (error) {
+    if (error instanceof EvaluationUnavailableError) {
+      return NextResponse.json({ evaluation: null, unavailableReason: error.reason })
+    }
+    return aiErrorResponse(error, 'Drill evaluation')
+  }
+}
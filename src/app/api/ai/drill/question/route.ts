@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { aiErrorResponse, getAIService, getPracticeSessionId } from '@/lib/ai-server'
+import { criterionKeySchema } from '@/lib/schemas'
+
+const drillQuestionSchema = z.object({
+  criterion: criterionKeySchema,
+  questionNumber: z.number().int().min(0),
+  previousQuestions: z.array(z.string()).optional()
+})
+
+// POST - Generate the next prompt for a single-criterion drill
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { criterion, questionNumber, previousQuestions } = drillQuestionSchema.parse(body)
+
+    const aiService = await getAIService(session.user.id, getPracticeSessionId(request))
+    const question = await aiService.generateDrillQuestion(criterion, questionNumber, previousQuestions)
+
+    return NextResponse.json({ question })
+
+  } catch (error) {
+    return aiErrorResponse(error, 'Drill question generation')
+  }
+}
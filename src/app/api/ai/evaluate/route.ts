@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { aiErrorResponse, aiStreamResponse, getAIService, getPracticeSessionId } from '@/lib/ai-server'
+import { EvaluationUnavailableError, type Evaluation } from '@/lib/evaluation'
+import { fluencyMetricsSchema, lexicalProfileSchema } from '@/lib/schemas'
+
+const evaluateSchema = z.object({
+  response: z.string().min(1, 'Response is required'),
+  part: z.number().int().min(1).max(3),
+  // Timing evidence for the Fluency & Coherence band
+  fluency: fluencyMetricsSchema.optional(),
+  // Vocabulary evidence for the Lexical Resource band
+  lexis: lexicalProfileSchema.optional(),
+  // Send the evaluator's JSON as NDJSON events while it is written
+  stream: z.boolean().optional()
+})
+
+// A streamed evaluation that can't be trusted ends with a null result, as the JSON response does
+async function* orUnavailable(stream: AsyncGenerator<string, Evaluation>): AsyncGenerator<string, Evaluation | null> {
+  try {
+    return yield* stream
+  } catch (error) {
+    if (error instanceof EvaluationUnavailableError) return null
+    throw error
+  }
+}
+
+// POST - Evaluate a transcribed answer
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { response, part, fluency, lexis, stream } = evaluateSchema.parse(body)
+
+    const aiService = await getAIService(session.user.id, getPracticeSessionId(request))
+    if (stream) {
+      return aiStreamResponse(
+        orUnavailable(aiService.streamEvaluation(response, part, fluency, lexis, request.signal)),
+        'Response evaluation'
+      )
+    }
+
+    const evaluation = await aiService.evaluateResponse(response, part, fluency, lexis)
+
+    return NextResponse.json({ evaluation })
+
+  } catch (error) {
+    // Not a failure of the request: the answer simply has no trustworthy score
+    if (error instanceof EvaluationUnavailableError) {
+      return NextResponse.json({ evaluation: null, unavailableReason: error.reason })
+    }
+    return aiErrorResponse(error, 'Response evaluation')
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { aiErrorResponse, getAIService, getPracticeSessionId } from '@/lib/ai-server'
+
+const followUpSchema = z.object({
+  move: z.enum(['follow-up', 'elaborate']),
+  part: z.number().int().min(1).max(3),
+  question: z.string().min(1, 'Question is required').max(1500),
+  answer: z.string().min(1, 'Answer is required')
+})
+
+// POST - Ask a follow-up that reacts to what the learner just said
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { move, part, question, answer } = followUpSchema.parse(body)
+
+    const aiService = await getAIService(session.user.id, getPracticeSessionId(request))
+    const followUp = await aiService.generateFollowUpQuestion(move, part, question, answer)
+
+    return NextResponse.json({ question: followUp })
+
+  } catch (error) {
+    return aiErrorResponse(error, 'Follow-up question generation')
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { hasServerApiKey } from '@/lib/ai-server'
+import { hasActiveApiKey } from '@/lib/api-key-vault'
+
+// GET - Report whether AI calls can be made without asking for a key
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hasServerKey = hasServerApiKey()
+    const hasStoredKey = hasServerKey ? false : await hasActiveApiKey(session.user.id)
+
+    return NextResponse.json({ hasServerKey, hasStoredKey })
+
+  } catch (error) {
+    console.error('API key status error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
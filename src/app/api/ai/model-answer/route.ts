@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { aiErrorResponse, aiStreamResponse, getAIService, getPracticeSessionId } from '@/lib/ai-server'
+
+const modelAnswerSchema = z.object({
+  question: z.string().min(1, 'Question is required'),
+  part: z.number().int().min(1).max(3),
+  userResponse: z.string().optional(),
+  // Send the answer as NDJSON events while it is written
+  stream: z.boolean().optional()
+})
+
+// POST - Generate a model answer, or improve the learner's own answer
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { question, part, userResponse, stream } = modelAnswerSchema.parse(body)
+
+    const aiService = await getAIService(session.user.id, getPracticeSessionId(request))
+    if (stream) {
+      return aiStreamResponse(
+        aiService.streamModelAnswer(question, part, userResponse, request.signal),
+        'Model answer generation'
+      )
+    }
+
+    const modelAnswer = await aiService.generateModelAnswer(question, part, userResponse)
+
+    return NextResponse.json({ modelAnswer })
+
+  } catch (error) {
+    return aiErrorResponse(error, 'Model answer generation')
+  }
+}
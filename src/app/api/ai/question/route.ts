@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { aiErrorResponse, getAIService, getPracticeSessionId } from '@/lib/ai-server'
+import { bankQuestionSchema } from '@/lib/schemas'
+
+const questionSchema = z.object({
+  part: z.number().int().min(1).max(3),
+  questionNumber: z.number().int().min(0),
+  previousResponses: z.array(z.string()).optional(),
+  topic: z.string().max(1500).optional(),
+  previousQuestions: z.array(z.string()).optional(),
+  bankQuestion: bankQuestionSchema.optional()
+})
+
+// POST - Generate the next examiner question
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { part, questionNumber, previousResponses, topic, previousQuestions, bankQuestion } = questionSchema.parse(body)
+
+    const aiService = await getAIService(session.user.id, getPracticeSessionId(request))
+    const question = await aiService.generateQuestion(part, questionNumber, previousResponses, topic, previousQuestions, bankQuestion)
+
+    return NextResponse.json({ question })
+
+  } catch (error) {
+    return aiErrorResponse(error, 'Question generation')
+  }
+}
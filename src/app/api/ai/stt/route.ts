@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { aiErrorResponse, getAIService, getPracticeSessionId } from '@/lib/ai-server'
+
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024 // Whisper upload limit
+
+// POST - Transcribe a recorded answer (multipart form with an "audio" file), with word and segment timings
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const audio = formData.get('audio')
+
+    if (!(audio instanceof Blob) || audio.size === 0) {
+      return NextResponse.json({ error: 'Audio file is required' }, { status: 400 })
+    }
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return NextResponse.json({ error: 'Audio file is too large' }, { status: 413 })
+    }
+
+    const aiService = await getAIService(session.user.id, getPracticeSessionId(request))
+    const transcription = await aiService.speechToText(audio)
+
+    return NextResponse.json(transcription)
+
+  } catch (error) {
+    return aiErrorResponse(error, 'Speech to text')
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { aiErrorResponse, getAIService, getPracticeSessionId } from '@/lib/ai-server'
+
+const ttsSchema = z.object({
+  text: z.string().min(1, 'Text is required').max(4096, 'Text is too long')
+})
+
+// POST - Convert examiner text to MP3 audio
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { text } = ttsSchema.parse(body)
+
+    const aiService = await getAIService(session.user.id, getPracticeSessionId(request))
+    const audio = await aiService.textToSpeech(text)
+
+    return new NextResponse(audio, {
+      headers: { 'Content-Type': 'audio/mpeg' }
+    })
+
+  } catch (error) {
+    return aiErrorResponse(error, 'Text to speech')
+  }
+}
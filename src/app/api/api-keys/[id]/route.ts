@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import mongoose from 'mongoose'
+import { connectToDatabase } from '@/lib/mongodb'
+import { ApiKey } from '@/lib/models/ApiKey'
+import { authOptions } from '@/lib/auth'
+import { releaseApiKey, sealApiKey, serializeApiKey, unsealApiKey, validateAndStamp } from '@/lib/api-key-vault'
+
+const updateApiKeySchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('rotate'),
+    apiKey: z.string().min(1, 'API key is required')
+  }),
+  z.object({
+    action: z.literal('validate')
+  })
+])
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+async function findActiveKey(id: string, userId: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null
+  return ApiKey.findOne({ _id: id, userId, status: 'active' })
+}
+
+// PATCH - Rotate the stored secret or re-validate it
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const update = updateApiKeySchema.parse(body)
+
+    await connectToDatabase()
+
+    const apiKey = await findActiveKey(id, session.user.id)
+    if (!apiKey) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+    }
+
+    if (update.action === 'rotate') {
+      const plaintext = update.apiKey.trim()
+      const validation = await validateAndStamp(apiKey, plaintext)
+      if (!validation.isValid) {
+        // Keep the old secret; a failed rotation must not lock the user out
+        return NextResponse.json({ error: validation.error }, { status: 400 })
+      }
+
+      const previous = unsealApiKey(apiKey)
+      if (previous && previous !== plaintext) releaseApiKey(previous)
+
+      apiKey.set(sealApiKey(plaintext))
+      apiKey.rotatedAt = new Date()
+    } else {
+      const plaintext = unsealApiKey(apiKey)
+      if (!plaintext) {
+        return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+      }
+      const validation = await validateAndStamp(apiKey, plaintext)
+      if (!validation.isValid) {
+        // Keep the failure on the key so the settings page shows why it stopped working
+        await apiKey.save()
+        return NextResponse.json({ error: validation.error }, { status: 400 })
+      }
+    }
+
+    await apiKey.save()
+
+    return NextResponse.json({
+      message: update.action === 'rotate' ? 'API key rotated successfully' : 'API key validated',
+      apiKey: serializeApiKey(apiKey)
+    })
+
+  } catch (error) {
+    console.error('API key update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Revoke the key and discard the encrypted secret
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    await connectToDatabase()
+
+    const apiKey = await findActiveKey(id, session.user.id)
+    if (!apiKey) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+    }
+
+    const plaintext = unsealApiKey(apiKey)
+    if (plaintext) releaseApiKey(plaintext)
+
+    apiKey.status = 'revoked'
+    apiKey.revokedAt = new Date()
+    apiKey.ciphertext = undefined
+    apiKey.iv = undefined
+    apiKey.authTag = undefined
+
+    await apiKey.save()
+
+    return NextResponse.json({
+      message: 'API key revoked successfully',
+      apiKey: serializeApiKey(apiKey)
+    })
+
+  } catch (error) {
+    console.error('API key revocation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
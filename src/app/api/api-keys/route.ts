@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { connectToDatabase } from '@/lib/mongodb'
+import { ApiKey } from '@/lib/models/ApiKey'
+import { authOptions } from '@/lib/auth'
+import { sealApiKey, serializeApiKey, validateAndStamp } from '@/lib/api-key-vault'
+
+const addApiKeySchema = z.object({
+  apiKey: z.string().min(1, 'API key is required'),
+  label: z.string().max(50, 'Label cannot exceed 50 characters').optional()
+})
+
+// GET - List the user's stored keys (metadata only)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const apiKeys = await ApiKey.find({ userId: session.user.id })
+      .sort({ createdAt: -1 })
+
+    return NextResponse.json({ apiKeys: apiKeys.map(serializeApiKey) })
+
+  } catch (error) {
+    console.error('API key retrieval error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Validate and store a new key
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { apiKey: plaintext, label } = addApiKeySchema.parse(body)
+
+    await connectToDatabase()
+
+    const existing = await ApiKey.findOne({ userId: session.user.id, status: 'active' })
+    if (existing) {
+      return NextResponse.json(
+        { error: 'An active API key already exists. Rotate or revoke it instead.' },
+        { status: 409 }
+      )
+    }
+
+    const apiKey = new ApiKey({
+      userId: session.user.id,
+      label,
+      ...sealApiKey(plaintext.trim())
+    })
+
+    const validation = await validateAndStamp(apiKey, plaintext.trim())
+    if (!validation.isValid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 })
+    }
+
+    await apiKey.save()
+
+    return NextResponse.json({
+      message: 'API key stored successfully',
+      apiKey: serializeApiKey(apiKey)
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('API key creation error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
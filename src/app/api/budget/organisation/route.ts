@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { connectToDatabase } from '@/lib/mongodb'
+import { User } from '@/lib/models/User'
+import { authOptions } from '@/lib/auth'
+import { isAdmin } from '@/lib/admin'
+import { getDefaultOrganisationLimits, toSpendLimits } from '@/lib/budget'
+import { spendLimitsSchema } from '@/lib/schemas'
+
+const organisationLimitsSchema = spendLimitsSchema.extend({
+  email: z.string().trim().toLowerCase().email('Invalid email')
+})
+
+// GET - A learner's caps on the organisation key, and the deployment defaults they override
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const email = searchParams.get('email')?.trim().toLowerCase()
+
+    if (!email) {
+      return NextResponse.json({ defaults: getDefaultOrganisationLimits() })
+    }
+
+    await connectToDatabase()
+
+    const user = await User.findOne({ email }).select('email organisationSpendLimits')
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      email: user.email,
+      limits: user.organisationSpendLimits ?? {},
+      defaults: getDefaultOrganisationLimits()
+    })
+
+  } catch (error) {
+    console.error('Organisation budget retrieval error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Override a learner's caps on the organisation key; null caps fall back to the defaults
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { email, ...limits } = organisationLimitsSchema.parse(body)
+
+    await connectToDatabase()
+
+    const user = await User.findOneAndUpdate(
+      { email },
+      { organisationSpendLimits: toSpendLimits(limits) },
+      { new: true, runValidators: true }
+    ).select('email organisationSpendLimits')
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      message: 'Organisation spend limits updated successfully',
+      email: user.email,
+      limits: user.organisationSpendLimits ?? {},
+      defaults: getDefaultOrganisationLimits()
+    })
+
+  } catch (error) {
+    console.error('Organisation budget update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { connectToDatabase } from '@/lib/mongodb'
+import { User } from '@/lib/models/User'
+import { authOptions } from '@/lib/auth'
+import { getActiveKeySource } from '@/lib/ai-server'
+import { getBudgetStatus, toSpendLimits } from '@/lib/budget'
+import { spendLimitsSchema } from '@/lib/schemas'
+
+// GET - Spend against the caps for the key the user's calls are billed to, plus their own caps
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const keySource = await getActiveKeySource(session.user.id)
+    const [status, user] = await Promise.all([
+      keySource ? getBudgetStatus(session.user.id, keySource) : null,
+      User.findById(session.user.id).select('spendLimits')
+    ])
+
+    return NextResponse.json({
+      status,
+      personalLimits: user?.spendLimits ?? {}
+    })
+
+  } catch (error) {
+    console.error('Budget retrieval error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Set the caps on the user's own (personal) key
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const limits = toSpendLimits(spendLimitsSchema.parse(body))
+
+    await connectToDatabase()
+
+    const user = await User.findByIdAndUpdate(
+      session.user.id,
+      { spendLimits: limits },
+      { new: true, runValidators: true }
+    ).select('spendLimits')
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      message: 'Spend limits updated successfully',
+      personalLimits: user.spendLimits ?? {}
+    })
+
+  } catch (error) {
+    console.error('Budget update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { connectToDatabase } from '@/lib/mongodb'
+import { authOptions } from '@/lib/auth'
+import { getCriterionSummary } from '@/lib/criterion-history'
+
+// GET - The user's average band per criterion and the one a drill should target
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const summary = await getCriterionSummary(session.user.id)
+
+    return NextResponse.json(summary)
+
+  } catch (error) {
+    console.error('Drill summary error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
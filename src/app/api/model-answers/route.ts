@@ -5,19 +5,15 @@ import crypto from 'crypto'
 import { connectToDatabase } from '@/lib/mongodb'
 import { ModelAnswer } from '@/lib/models/ModelAnswer'
 import { authOptions } from '@/lib/auth'
+import { bandScoreSchema, criteriaSchema } from '@/lib/schemas'
 
 const modelAnswerSchema = z.object({
   question: z.string().min(1, 'Question is required'),
   part: z.number().int().min(1).max(3),
   topic: z.string().optional(),
   modelAnswer: z.string().min(1, 'Model answer is required'),
-  bandScore: z.number().min(1).max(9),
-  criteria: z.object({
-    fluencyCoherence: z.number().min(1).max(9),
-    lexicalResource: z.number().min(1).max(9),
-    grammaticalRange: z.number().min(1).max(9),
-    pronunciation: z.number().min(1).max(9)
-  })
+  bandScore: bandScoreSchema,
+  criteria: criteriaSchema
 })
 
 const searchSchema = z.object({
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { connectToDatabase } from '@/lib/mongodb'
+import { authOptions } from '@/lib/auth'
+import { getPracticeQueue } from '@/lib/spaced-repetition'
+
+// GET - Topics due for review today, scheduled from the user's past band scores
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '5') || 5, 1), 20)
+
+    await connectToDatabase()
+
+    const practiceQueue = await getPracticeQueue(session.user.id, limit)
+
+    return NextResponse.json(practiceQueue)
+
+  } catch (error) {
+    console.error('Practice queue error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import mongoose from 'mongoose'
+import { connectToDatabase } from '@/lib/mongodb'
+import { Question } from '@/lib/models/Question'
+import { authOptions } from '@/lib/auth'
+import { isAdmin } from '@/lib/admin'
+import { questionBankEntrySchema } from '@/lib/schemas'
+import { serializeQuestion } from '@/lib/question-bank'
+
+// Partial edits; status can be set back to active to restore a retired question
+const updateQuestionSchema = questionBankEntrySchema.partial()
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+async function findQuestion(id: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null
+  return Question.findById(id)
+}
+
+// PATCH - Edit a question
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const update = updateQuestionSchema.parse(body)
+
+    await connectToDatabase()
+
+    const question = await findQuestion(id)
+    if (!question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+    }
+
+    question.set(update)
+    if (update.status) {
+      question.retiredAt = update.status === 'retired' ? question.retiredAt ?? new Date() : undefined
+    }
+    question.updatedBy = new mongoose.Types.ObjectId(session.user.id)
+
+    await question.save()
+
+    return NextResponse.json({
+      message: 'Question updated successfully',
+      question: serializeQuestion(question)
+    })
+
+  } catch (error) {
+    console.error('Question update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error && typeof error === 'object' && 'code' in error && error.code === 11000) {
+      return NextResponse.json(
+        { error: 'This question already exists for that part' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Retire a question; it stays in the bank so past sessions keep their context
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    await connectToDatabase()
+
+    const question = await findQuestion(id)
+    if (!question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+    }
+
+    question.status = 'retired'
+    question.retiredAt = new Date()
+    question.updatedBy = new mongoose.Types.ObjectId(session.user.id)
+
+    await question.save()
+
+    return NextResponse.json({
+      message: 'Question retired successfully',
+      question: serializeQuestion(question)
+    })
+
+  } catch (error) {
+    console.error('Question retirement error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { connectToDatabase } from '@/lib/mongodb'
+import { Question } from '@/lib/models/Question'
+import { authOptions } from '@/lib/auth'
+import { isAdmin } from '@/lib/admin'
+import { questionFilterSchema } from '@/lib/schemas'
+import { serializeQuestionFile } from '@/lib/question-io'
+import { toExportable } from '@/lib/question-bank'
+
+// GET - Download the question bank as JSON or CSV for review outside the app
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') === 'csv' ? 'csv' : 'json'
+    // Empty parameters count as absent
+    const { part, status, tag } = questionFilterSchema.parse(
+      Object.fromEntries([...searchParams].filter(([, value]) => value !== ''))
+    )
+
+    const query: Record<string, unknown> = {}
+    if (part) query.part = part
+    if (status) query.status = status
+    if (tag) query.seasonTags = tag
+
+    await connectToDatabase()
+
+    const questions = await Question.find(query).sort({ part: 1, topic: 1, text: 1 })
+    const body = serializeQuestionFile(format, questions.map(toExportable))
+    const filename = `question-bank-${new Date().toISOString().slice(0, 10)}.${format}`
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Question export error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
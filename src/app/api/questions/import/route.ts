@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { connectToDatabase } from '@/lib/mongodb'
+import { authOptions } from '@/lib/auth'
+import { isAdmin } from '@/lib/admin'
+import { parseQuestionFile } from '@/lib/question-io'
+import { applyImport, planImport } from '@/lib/question-bank'
+
+const importSchema = z.object({
+  format: z.enum(['json', 'csv']),
+  content: z.string().min(1, 'File content is required').max(2_000_000, 'File is too large'),
+  // Applied to rows without a part, e.g. the plain string arrays in src/data
+  part: z.union([z.literal(1), z.literal(2), z.literal(3)]).optional(),
+  dryRun: z.boolean().default(true)
+})
+
+// POST - Bulk-import questions from JSON or CSV; dry runs only report the diff
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { format, content, part, dryRun } = importSchema.parse(body)
+
+    const parsed = parseQuestionFile(format, content, part)
+
+    await connectToDatabase()
+
+    const plan = await planImport(parsed)
+
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, plan })
+    }
+
+    // Nothing is written unless every row is valid, so a file is never half-imported
+    if (plan.invalid.length > 0) {
+      return NextResponse.json(
+        { error: 'Fix the invalid rows before importing', plan },
+        { status: 400 }
+      )
+    }
+
+    const result = await applyImport(plan, session.user.id)
+
+    return NextResponse.json({
+      dryRun: false,
+      message: `Created ${result.created} and updated ${result.updated} question(s)` +
+        (result.skipped.length > 0 ? `; skipped ${result.skipped.length} created by another import meanwhile` : ''),
+      ...result,
+      plan
+    })
+
+  } catch (error) {
+    console.error('Question import error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { connectToDatabase } from '@/lib/mongodb'
+import { Question } from '@/lib/models/Question'
+import { authOptions } from '@/lib/auth'
+import { isAdmin } from '@/lib/admin'
+import { questionBankEntrySchema, questionFilterSchema } from '@/lib/schemas'
+import { serializeQuestion } from '@/lib/question-bank'
+
+const listQuestionsSchema = questionFilterSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+})
+
+// GET - List question bank entries
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    // Empty parameters count as absent
+    const { page, limit, part, status, topic, tag } = listQuestionsSchema.parse(
+      Object.fromEntries([...searchParams].filter(([, value]) => value !== ''))
+    )
+
+    const query: Record<string, unknown> = {}
+    if (part) query.part = part
+    if (status) query.status = status
+    if (topic) query.topic = new RegExp(topic.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i')
+    if (tag) query.seasonTags = tag
+
+    await connectToDatabase()
+
+    const [questions, total] = await Promise.all([
+      Question.find(query)
+        .sort({ part: 1, topic: 1, createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Question.countDocuments(query)
+    ])
+
+    return NextResponse.json({
+      questions: questions.map(serializeQuestion),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    })
+
+  } catch (error) {
+    console.error('Question bank retrieval error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Add a question to the bank
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const entry = questionBankEntrySchema.parse(body)
+
+    await connectToDatabase()
+
+    const question = new Question({
+      ...entry,
+      retiredAt: entry.status === 'retired' ? new Date() : undefined,
+      createdBy: session.user.id,
+      updatedBy: session.user.id
+    })
+
+    await question.save()
+
+    return NextResponse.json({
+      message: 'Question created successfully',
+      question: serializeQuestion(question)
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Question creation error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error && typeof error === 'object' && 'code' in error && error.code === 11000) {
+      return NextResponse.json(
+        { error: 'This question already exists for that part' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { connectToDatabase } from '@/lib/mongodb'
+import { User } from '@/lib/models/User'
+import { authOptions } from '@/lib/auth'
+import { COST_PROFILE_NAMES, DEFAULT_COST_PROFILE } from '@/lib/cost-profiles'
+
+const settingsSchema = z.object({
+  costProfile: z.enum(COST_PROFILE_NAMES)
+})
+
+// GET - The user's practice settings
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await connectToDatabase()
+
+    const user = await User.findById(session.user.id).select('costProfile')
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ costProfile: user.costProfile ?? DEFAULT_COST_PROFILE })
+
+  } catch (error) {
+    console.error('Settings retrieval error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Choose the cost profile used for the user's AI calls
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { costProfile } = settingsSchema.parse(body)
+
+    await connectToDatabase()
+
+    const user = await User.findByIdAndUpdate(
+      session.user.id,
+      { costProfile },
+      { new: true, runValidators: true }
+    ).select('costProfile')
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      message: 'Settings updated successfully',
+      costProfile: user.costProfile
+    })
+
+  } catch (error) {
+    console.error('Settings update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
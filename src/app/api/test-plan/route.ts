@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { connectToDatabase } from '@/lib/mongodb'
+import { authOptions } from '@/lib/auth'
+import { buildTestPlan } from '@/lib/test-plan'
+import { attachBankQuestions, createHistoryTopicPicker } from '@/lib/topic-selection'
+
+const planQuerySchema = z.object({
+  mode: z.enum(['1', '2', '3', 'full']).transform(mode => (mode === 'full' ? mode : (Number(mode) as 1 | 2 | 3))),
+  strategy: z.enum(['fresh', 'weak']).default('fresh'),
+  // A topic to lead with, e.g. one due for review; Part 1 topic in mode 1, otherwise a cue card
+  topic: z.string().max(1500).optional()
+})
+
+// GET - Plan a practice session from the user's history and the question bank
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { mode, strategy, topic } = planQuerySchema.parse({
+      mode: searchParams.get('mode'),
+      strategy: searchParams.get('strategy') ?? undefined,
+      topic: searchParams.get('topic') ?? undefined
+    })
+
+    await connectToDatabase()
+
+    const leadTopic = topic ? { part: mode === 1 ? 1 as const : 2 as const, topic } : undefined
+    const pickTopics = await createHistoryTopicPicker(session.user.id, strategy, leadTopic)
+
+    const plan = await attachBankQuestions(buildTestPlan(mode, pickTopics))
+
+    return NextResponse.json({ plan })
+
+  } catch (error) {
+    console.error('Test plan error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
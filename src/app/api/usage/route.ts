@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { connectToDatabase } from '@/lib/mongodb'
+import { authOptions } from '@/lib/auth'
+import { getUsageSummary } from '@/lib/usage-events'
+
+// GET - Estimated AI spend, token counts and cache hit rates for the current user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30') || 30, 1), 365)
+
+    await connectToDatabase()
+
+    const summary = await getUsageSummary(session.user.id, days)
+
+    return NextResponse.json(summary)
+
+  } catch (error) {
+    console.error('Usage summary error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
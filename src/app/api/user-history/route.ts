@@ -4,41 +4,38 @@ import { z } from 'zod'
 import { connectToDatabase } from '@/lib/mongodb'
 import { UserHistory } from '@/lib/models/UserHistory'
 import { authOptions } from '@/lib/auth'
+import { criterionKeySchema, drillResultSchema, fluencyMetricsSchema, historyEvaluationSchema, lexicalProfileSchema, transcriptTimingsSchema } from '@/lib/schemas'
+import { aggregateScores, aggregateScoresByPart } from '@/lib/scoring'
 
 const createHistorySchema = z.object({
   sessionId: z.string().min(1, 'Session ID is required'),
-  part: z.number().int().min(1).max(3),
+  sessionType: z.enum(['practice', 'full-test', 'drill']).default('practice'),
+  part: z.number().int().min(1).max(3).optional(),
   topic: z.string().optional(),
+  drillCriterion: criterionKeySchema.optional(),
   questions: z.array(z.object({
+    part: z.number().int().min(1).max(3).optional(),
+    topic: z.string().max(1500).optional(),
     question: z.string().min(1, 'Question is required'),
     userAnswer: z.string().optional(),
+    timings: transcriptTimingsSchema.optional(),
+    fluency: fluencyMetricsSchema.optional(),
+    lexis: lexicalProfileSchema.optional(),
     modelAnswer: z.string().optional(),
-    evaluation: z.object({
-      bandScore: z.number().min(1).max(9),
-      criteria: z.object({
-        fluencyCoherence: z.number().min(1).max(9),
-        lexicalResource: z.number().min(1).max(9),
-        grammaticalRange: z.number().min(1).max(9),
-        pronunciation: z.number().min(1).max(9)
-      }),
-      feedback: z.string(),
-      strengths: z.array(z.string()),
-      improvements: z.array(z.string())
-    }).optional(),
+    notes: z.string().max(2000).optional(),
+    evaluation: historyEvaluationSchema.optional(),
+    drill: drillResultSchema.optional(),
     timestamp: z.string().datetime().optional()
   })),
-  overallScore: z.object({
-    bandScore: z.number().min(1).max(9),
-    criteria: z.object({
-      fluencyCoherence: z.number().min(1).max(9),
-      lexicalResource: z.number().min(1).max(9),
-      grammaticalRange: z.number().min(1).max(9),
-      pronunciation: z.number().min(1).max(9)
-    })
-  }).optional(),
   duration: z.number().min(0, 'Duration cannot be negative'),
   completedAt: z.string().datetime().optional()
-})
+}).refine(
+  data => data.sessionType !== 'practice' || data.part !== undefined,
+  { message: 'IELTS part is required', path: ['part'] }
+).refine(
+  data => data.sessionType !== 'drill' || data.drillCriterion !== undefined,
+  { message: 'Drill criterion is required', path: ['drillCriterion'] }
+)
 
 // GET - Retrieve user history
 export async function GET(request: NextRequest) {
@@ -53,12 +50,16 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '10')
     const part = searchParams.get('part')
     const topic = searchParams.get('topic')
+    const sessionType = searchParams.get('sessionType')
 
     await connectToDatabase()
 
     // Build query
     const query: Record<string, unknown> = { userId: session.user.id }
-    if (part) query.part = parseInt(part)
+    // Full tests match any part they covered
+    if (part) query.$or = [{ part: parseInt(part) }, { 'questions.part': parseInt(part) }]
+    // Sessions saved before session types existed were all practice
+    if (sessionType) query.sessionType = sessionType === 'practice' ? { $nin: ['full-test', 'drill'] } : sessionType
     if (topic) query.topic = new RegExp(topic, 'i')
 
     // Get total count for pagination
@@ -72,17 +73,25 @@ export async function GET(request: NextRequest) {
       .select('-userId')
 
     return NextResponse.json({
-      histories: histories.map(history => ({
-        id: history._id,
-        sessionId: history.sessionId,
-        part: history.part,
-        topic: history.topic,
-        questions: history.questions,
-        overallScore: history.overallScore,
-        duration: history.duration,
-        completedAt: history.completedAt,
-        createdAt: history.createdAt
-      })),
+      histories: histories.map(history => {
+        // Drill answers are banded on one criterion, so they have no overall band
+        const isDrill = history.sessionType === 'drill'
+        return {
+          id: history._id,
+          sessionId: history.sessionId,
+          sessionType: history.sessionType ?? 'practice',
+          part: history.part,
+          topic: history.topic,
+          drillCriterion: history.drillCriterion,
+          questions: history.questions,
+          // Always derived from the stored criteria so older sessions get a score too
+          overallScore: isDrill ? undefined : aggregateScores(history.questions) ?? history.overallScore,
+          partScores: isDrill ? undefined : aggregateScoresByPart(history.questions, history.part),
+          duration: history.duration,
+          completedAt: history.completedAt,
+          createdAt: history.createdAt
+        }
+      }),
       pagination: {
         page,
         limit,
@@ -113,6 +122,7 @@ export async function POST(request: NextRequest) {
     // Create new history entry
     const history = new UserHistory({
       ...validatedData,
+      overallScore: aggregateScores(validatedData.questions),
       userId: session.user.id,
       questions: validatedData.questions.map(q => ({
         ...q,
@@ -128,10 +138,13 @@ export async function POST(request: NextRequest) {
       history: {
         id: history._id,
         sessionId: history.sessionId,
+        sessionType: history.sessionType,
         part: history.part,
         topic: history.topic,
+        drillCriterion: history.drillCriterion,
         questions: history.questions,
         overallScore: history.overallScore,
+        partScores: history.sessionType === 'drill' ? undefined : aggregateScoresByPart(history.questions, history.part),
         duration: history.duration,
         completedAt: history.completedAt,
         createdAt: history.createdAt
@@ -0,0 +1,78 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import DrillSession from '@/components/DrillSession'
+import { CRITERIA, type CriterionKey } from '@/lib/evaluation'
+import { DRILLS } from '@/lib/drills'
+
+const isCriterion = (value: string | null): value is CriterionKey =>
+  CRITERIA.some(({ key }) => key === value)
+
+export default function DrillPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [criterion, setCriterion] = useState<CriterionKey | null>(null)
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) router.push('/auth/signin')
+  }, [session, status, router])
+
+  // Launched from the history page as /dashboard/drill?criterion=...
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get('criterion')
+    if (isCriterion(requested)) setCriterion(requested)
+  }, [])
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  if (criterion) {
+    return <DrillSession criterion={criterion} onExit={() => router.push('/dashboard/history')} />
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 h-16">
+            <Link href="/dashboard/history" className="text-blue-600 hover:text-blue-800">
+              ← Back to History
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">
+              Criterion Drills
+            </h1>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 grid grid-cols-1 md:grid-cols-2 gap-6">
+          {CRITERIA.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setCriterion(key)}
+              className="bg-white rounded-lg shadow p-6 text-left hover:shadow-md transition-shadow"
+            >
+              <h2 className="text-lg font-medium text-gray-900">{DRILLS[key].title}</h2>
+              <p className="text-sm text-purple-700 mb-2">{label}</p>
+              <p className="text-sm text-gray-600">{DRILLS[key].instructions}</p>
+            </button>
+          ))}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -4,16 +4,20 @@ import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
 import Link from 'next/link'
+import { CRITERIA, type CriterionKey } from '@/lib/evaluation'
 
 interface HistoryEntry {
   id: string
   sessionId: string
-  part: 1 | 2 | 3
+  sessionType: 'practice' | 'full-test' | 'drill'
+  part?: 1 | 2 | 3
   topic?: string
+  drillCriterion?: CriterionKey
   questions: Array<{
     question: string
     userAnswer?: string
     modelAnswer?: string
+    notes?: string
     evaluation?: {
       bandScore: number
       criteria: {
@@ -22,10 +26,29 @@ interface HistoryEntry {
         grammaticalRange: number
         pronunciation: number
       }
+      justifications?: {
+        fluencyCoherence: string
+        lexicalResource: string
+        grammaticalRange: string
+        pronunciation: string
+      }
       feedback: string
       strengths: string[]
       improvements: string[]
     }
+    drill?: {
+      criterion: CriterionKey
+      band: number
+      justification: string
+      feedback: string
+      improvements: string[]
+      metrics?: {
+        wordCount: number
+        fillerWords: number
+        wordsPerMinute: number
+        durationSeconds: number
+      }
+    }
     timestamp: string
   }>
   overallScore?: {
@@ -37,11 +60,20 @@ interface HistoryEntry {
       pronunciation: number
     }
   }
+  partScores?: Partial<Record<'1' | '2' | '3', { bandScore: number }>>
   duration: number
   completedAt?: string
   createdAt: string
 }
 
+interface CriterionSummary {
+  averages: Record<CriterionKey, number> | null
+  weakest: CriterionKey | null
+  sampleSize: number
+}
+
+const criterionLabel = (key?: CriterionKey) => CRITERIA.find(criterion => criterion.key === key)?.label ?? key
+
 interface PaginationInfo {
   page: number
   limit: number
@@ -62,6 +94,7 @@ export default function PracticeHistory() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [selectedPart, setSelectedPart] = useState<string>('')
+  const [criterionSummary, setCriterionSummary] = useState<CriterionSummary | null>(null)
 
   useEffect(() => {
     if (status === 'loading') return
@@ -72,6 +105,14 @@ export default function PracticeHistory() {
     fetchHistory()
   }, [session, status, router, pagination.page, selectedPart])
 
+  useEffect(() => {
+    if (!session) return
+    fetch('/api/drills')
+      .then(response => (response.ok ? response.json() : null))
+      .then(setCriterionSummary)
+      .catch(error => console.error('Error fetching criterion summary:', error))
+  }, [session])
+
   const fetchHistory = async () => {
     try {
       setLoading(true)
@@ -80,7 +121,9 @@ export default function PracticeHistory() {
         limit: pagination.limit.toString()
       })
       
-      if (selectedPart) {
+      if (selectedPart === 'full-test' || selectedPart === 'drill') {
+        params.append('sessionType', selectedPart)
+      } else if (selectedPart) {
         params.append('part', selectedPart)
       }
 
@@ -124,7 +167,7 @@ export default function PracticeHistory() {
     return 'text-red-600 bg-red-100'
   }
 
-  const getPartColor = (part: number) => {
+  const getPartColor = (part?: number) => {
     switch (part) {
       case 1: return 'bg-green-100 text-green-800'
       case 2: return 'bg-orange-100 text-orange-800'
@@ -189,6 +232,8 @@ export default function PracticeHistory() {
                   <option value="1">Part 1</option>
                   <option value="2">Part 2</option>
                   <option value="3">Part 3</option>
+                  <option value="full-test">Full Mock Tests</option>
+                  <option value="drill">Drills</option>
                 </select>
               </div>
               <div className="flex-1"></div>
@@ -198,6 +243,34 @@ export default function PracticeHistory() {
             </div>
           </div>
 
+          {/* Weakest criterion drill */}
+          {criterionSummary?.averages && criterionSummary.weakest && (
+            <div className="bg-white rounded-lg shadow p-6 mb-6">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900">Drill your weakest criterion</h3>
+                  <p className="text-sm text-gray-600">
+                    Based on {criterionSummary.sampleSize} evaluated answers, {criterionLabel(criterionSummary.weakest)} is
+                    holding your score back (average {criterionSummary.averages[criterionSummary.weakest]}).
+                  </p>
+                </div>
+                <Link
+                  href={`/dashboard/drill?criterion=${criterionSummary.weakest}`}
+                  className="bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 transition-colors"
+                >
+                  Start {criterionLabel(criterionSummary.weakest)} Drill
+                </Link>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-sm">
+                {CRITERIA.map(({ key, label }) => (
+                  <div key={key} className={key === criterionSummary.weakest ? 'text-purple-700 font-medium' : 'text-gray-600'}>
+                    {label}: {criterionSummary.averages?.[key]}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
               <p className="text-red-600">{error}</p>
@@ -228,9 +301,19 @@ export default function PracticeHistory() {
                   <div key={history.id} className="bg-white rounded-lg shadow p-6">
                     <div className="flex flex-wrap items-center justify-between mb-4">
                       <div className="flex items-center space-x-4">
-                        <span className={`px-3 py-1 rounded-full text-sm font-medium ${getPartColor(history.part)}`}>
-                          Part {history.part}
-                        </span>
+                        {history.sessionType === 'full-test' ? (
+                          <span className="px-3 py-1 rounded-full text-sm font-medium bg-indigo-100 text-indigo-800">
+                            Full Mock Test
+                          </span>
+                        ) : history.sessionType === 'drill' ? (
+                          <span className="px-3 py-1 rounded-full text-sm font-medium bg-purple-100 text-purple-800">
+                            Drill: {criterionLabel(history.drillCriterion)}
+                          </span>
+                        ) : (
+                          <span className={`px-3 py-1 rounded-full text-sm font-medium ${getPartColor(history.part)}`}>
+                            Part {history.part}
+                          </span>
+                        )}
                         {history.topic && (
                           <span className="text-sm text-gray-600">
                             Topic: {history.topic}
@@ -275,19 +358,58 @@ export default function PracticeHistory() {
                                 <h5 className="text-sm font-medium text-gray-800 mb-2">Question {index + 1}:</h5>
                                 <p className="text-sm text-gray-700 mb-3">{q.question}</p>
                               </div>
+
+                              {q.notes && (
+                                <div className="mb-3">
+                                  <h6 className="text-xs font-medium text-orange-800 mb-1">Preparation Notes:</h6>
+                                  <p className="text-xs text-orange-700 bg-orange-50 p-2 rounded whitespace-pre-wrap">{q.notes}</p>
+                                </div>
+                              )}
                               
                               {q.userAnswer && (
                                 <div className="mb-3">
                                   <div className="flex items-center justify-between mb-2">
                                     <h6 className="text-xs font-medium text-blue-800 mb-1">Your Answer:</h6>
-                                    <span className={`text-xs px-2 py-1 rounded ${getBandScoreColor(q?.evaluation?.bandScore ?? 0)}`}>
-                                      {q?.evaluation?.bandScore}
+                                    <span className={`text-xs px-2 py-1 rounded ${getBandScoreColor(q?.evaluation?.bandScore ?? q.drill?.band ?? 0)}`}>
+                                      {q?.evaluation?.bandScore ?? q.drill?.band}
                                     </span>
                                   </div>
                                   <p className="text-xs text-blue-700 bg-blue-50 p-2 rounded">{q.userAnswer}</p>
                                 </div>
                               )}
+
+                              {q.evaluation && (
+                                <div className="mb-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+                                  {CRITERIA.map(({ key, label }) => (
+                                    <div key={key} className="text-xs bg-white border border-gray-200 rounded p-2">
+                                      <div className="flex justify-between font-medium text-gray-700">
+                                        <span>{label}</span>
+                                        <span>{q.evaluation?.criteria[key]}</span>
+                                      </div>
+                                      {q.evaluation?.justifications?.[key] && (
+                                        <p className="text-gray-600 mt-1">{q.evaluation.justifications[key]}</p>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
                               
+                              {q.drill && (
+                                <div className="mb-3 text-xs bg-white border border-purple-200 rounded p-2">
+                                  <div className="flex justify-between font-medium text-purple-800">
+                                    <span>{criterionLabel(q.drill.criterion)}</span>
+                                    <span>{q.drill.band}</span>
+                                  </div>
+                                  <p className="text-gray-600 mt-1">{q.drill.justification}</p>
+                                  <p className="text-gray-600 mt-1">{q.drill.feedback}</p>
+                                  {q.drill.metrics && (
+                                    <p className="text-purple-700 mt-1">
+                                      {q.drill.metrics.wordsPerMinute} words per minute · {q.drill.metrics.fillerWords} filler words
+                                    </p>
+                                  )}
+                                </div>
+                              )}
+
                               {q.modelAnswer && (
                                 <div className="mb-3">
                                   <h6 className="text-xs font-medium text-green-800 mb-1">Improved Answer:</h6>
@@ -321,6 +443,15 @@ export default function PracticeHistory() {
                             <span className="ml-2 font-medium">{history.overallScore.criteria.pronunciation}</span>
                           </div>
                         </div>
+                        {history.partScores && Object.keys(history.partScores).length > 1 && (
+                          <div className="flex flex-wrap gap-4 mt-3 text-sm">
+                            {Object.entries(history.partScores).map(([part, score]) => (
+                              <span key={part} className="text-gray-600">
+                                Part {part}: <span className="font-medium">{score?.bandScore}</span>
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -2,18 +2,45 @@
 
 import { useSession, signOut } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import Link from 'next/link'
 
+interface TopicReview {
+  topic: string
+  part: 1 | 2
+  attempts: number
+  lastPracticedAt: string
+  lastBand?: number
+  intervalDays: number
+  dueAt: string
+  overdueDays: number
+}
+
+interface PracticeQueue {
+  queue: TopicReview[]
+  totalDue: number
+  upcoming: TopicReview[]
+}
+
 export default function Dashboard() {
   const { data: session, status } = useSession()
   const router = useRouter()
+  const [practiceQueue, setPracticeQueue] = useState<PracticeQueue | null>(null)
 
   useEffect(() => {
     if (status === 'loading') return // Still loading
     if (!session) router.push('/auth/signin') // Not authenticated
   }, [session, status, router])
 
+  useEffect(() => {
+    if (!session) return
+
+    fetch('/api/practice-queue')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setPracticeQueue(data))
+      .catch(error => console.error('Error fetching practice queue:', error))
+  }, [session])
+
   if (status === 'loading') {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -108,8 +135,91 @@ export default function Dashboard() {
                     Coming Soon
                   </button>
                 </div>
+
+                {/* AI usage and cost */}
+                <div className="bg-teal-50 rounded-lg p-6 border border-teal-200">
+                  <h3 className="text-lg font-semibold text-teal-800 mb-3">
+                    AI Usage
+                  </h3>
+                  <p className="text-teal-600 mb-4">
+                    See what each practice session costs on your API key
+                  </p>
+                  <Link
+                    href="/dashboard/usage"
+                    className="inline-block bg-teal-600 text-white px-4 py-2 rounded-md hover:bg-teal-700 transition-colors"
+                  >
+                    View Usage
+                  </Link>
+                </div>
+
+                {/* Question bank (admins only) */}
+                {session.user?.role === 'admin' && (
+                  <div className="bg-amber-50 rounded-lg p-6 border border-amber-200">
+                    <h3 className="text-lg font-semibold text-amber-800 mb-3">
+                      Question Bank
+                    </h3>
+                    <p className="text-amber-600 mb-4">
+                      Import and export this season&apos;s questions
+                    </p>
+                    <Link
+                      href="/dashboard/questions"
+                      className="inline-block bg-amber-600 text-white px-4 py-2 rounded-md hover:bg-amber-700 transition-colors"
+                    >
+                      Manage Questions
+                    </Link>
+                  </div>
+                )}
               </div>
 
+              {/* Today's practice (spaced repetition) */}
+              {practiceQueue && (
+                <div className="mt-8 bg-indigo-50 rounded-lg p-6 border border-indigo-200">
+                  <h3 className="text-lg font-semibold text-indigo-800 mb-1">
+                    Today&apos;s Practice
+                  </h3>
+                  <p className="text-sm text-indigo-600 mb-4">
+                    {practiceQueue.totalDue > 0
+                      ? `${practiceQueue.totalDue} topic(s) due for review. Topics you score well on come back less often.`
+                      : 'Nothing due for review today. Practise something new!'}
+                  </p>
+
+                  {practiceQueue.queue.length > 0 && (
+                    <ul className="space-y-2 mb-4">
+                      {practiceQueue.queue.map(review => (
+                        <li
+                          key={`${review.part}-${review.topic}`}
+                          className="flex flex-wrap items-center justify-between gap-2 bg-white rounded-md border border-indigo-100 px-4 py-3"
+                        >
+                          <div>
+                            <p className="text-sm font-medium text-gray-800">{review.topic}</p>
+                            <p className="text-xs text-gray-500">
+                              {review.part === 1 ? 'Part 1 topic' : 'Part 2 cue card'}
+                              {review.lastBand !== undefined && ` · last band ${review.lastBand.toFixed(1)}`}
+                              {review.overdueDays > 0 && ` · ${review.overdueDays} day(s) overdue`}
+                            </p>
+                          </div>
+                          <Link
+                            href={`/?mode=${review.part}&topic=${encodeURIComponent(review.topic)}`}
+                            className="bg-indigo-600 text-white text-sm px-3 py-1 rounded-md hover:bg-indigo-700 transition-colors"
+                          >
+                            Practise
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {practiceQueue.upcoming.length > 0 && (
+                    <div className="text-xs text-indigo-700">
+                      <span className="font-medium">Coming up:</span>{' '}
+                      {practiceQueue.upcoming
+                        .map(review => `${review.topic} (${new Date(review.dueAt).toLocaleDateString()})`)
+                        .join(', ')}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="mt-8 bg-gray-50 rounded-lg p-6">
                 <h3 className="text-lg font-semibold text-gray-800 mb-3">
                   Account Information
@@ -0,0 +1,261 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { ImportPlan } from '@/lib/question-bank'
+
+type FileFormat = 'json' | 'csv'
+
+const formatValue = (value: unknown) => (Array.isArray(value) ? value.join(' | ') || '(none)' : String(value ?? ''))
+
+export default function QuestionBankPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [format, setFormat] = useState<FileFormat>('json')
+  const [part, setPart] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [content, setContent] = useState('')
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) router.push('/auth/signin')
+  }, [session, status, router])
+
+  const handleFile = async (file: File | undefined) => {
+    setPlan(null)
+    setMessage('')
+    setError('')
+    if (!file) return
+
+    setFileName(file.name)
+    setFormat(file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json')
+    setContent(await file.text())
+  }
+
+  const runImport = async (dryRun: boolean) => {
+    setLoading(true)
+    setMessage('')
+    setError('')
+    try {
+      const response = await fetch('/api/questions/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          format,
+          content,
+          part: part ? parseInt(part) : undefined,
+          dryRun
+        })
+      })
+      const data = await response.json()
+
+      if (data.plan) setPlan(data.plan)
+      if (!response.ok) {
+        setError(data.error || 'Import failed')
+      } else if (!dryRun) {
+        setMessage(data.message)
+        setPlan(null)
+      }
+    } catch (err) {
+      console.error('Error importing questions:', err)
+      setError('Import failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // The export route answers with an attachment, so the browser downloads it in place
+  const downloadExport = (exportFormat: FileFormat) => {
+    window.location.assign(`/api/questions/export?format=${exportFormat}`)
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  const hasChanges = plan && plan.create.length + plan.update.length > 0
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <Link href="/dashboard" className="text-blue-600 hover:text-blue-800">
+                ← Back to Dashboard
+              </Link>
+              <h1 className="text-xl font-semibold text-gray-900">
+                Question Bank
+              </h1>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => downloadExport('json')}
+                className="border border-gray-300 text-gray-700 px-3 py-2 rounded-md hover:bg-gray-50 text-sm"
+              >
+                Export JSON
+              </button>
+              <button
+                onClick={() => downloadExport('csv')}
+                className="border border-gray-300 text-gray-700 px-3 py-2 rounded-md hover:bg-gray-50 text-sm"
+              >
+                Export CSV
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {session.user?.role !== 'admin' && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-yellow-800 text-sm">
+              Only admins can change the question bank.
+            </div>
+          )}
+
+          {/* Upload */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-2">Import questions</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Upload a JSON export, one of the plain string arrays from <code>src/data</code>, or a CSV with the columns
+              {' '}<code>part, topic, text, bulletPoints, linkedPart3Questions, difficulty, seasonTags</code>.
+              Separate list values with <code>|</code>.
+            </p>
+            <div className="flex flex-wrap gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">File</label>
+                <input
+                  type="file"
+                  accept=".json,.csv,application/json,text/csv"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                  className="text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+                <select
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as FileFormat)}
+                  className="border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="json">JSON</option>
+                  <option value="csv">CSV</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Part for rows without one</label>
+                <select
+                  value={part}
+                  onChange={(e) => setPart(e.target.value)}
+                  className="border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">None</option>
+                  <option value="1">Part 1</option>
+                  <option value="2">Part 2</option>
+                  <option value="3">Part 3</option>
+                </select>
+              </div>
+              <button
+                onClick={() => runImport(true)}
+                disabled={!content || loading}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+              >
+                Preview changes
+              </button>
+              <button
+                onClick={() => runImport(false)}
+                disabled={!hasChanges || (plan?.invalid.length ?? 0) > 0 || loading}
+                className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 disabled:bg-gray-400 transition-colors"
+              >
+                Import
+              </button>
+            </div>
+            {fileName && <p className="text-xs text-gray-500 mt-2">{fileName}</p>}
+            {message && <p className="text-sm text-green-700 mt-4">{message}</p>}
+            {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+          </div>
+
+          {/* Dry-run diff */}
+          {plan && (
+            <div className="bg-white rounded-lg shadow p-6 space-y-6">
+              <div className="flex flex-wrap gap-4 text-sm">
+                <span className="px-3 py-1 rounded-full bg-green-100 text-green-800">{plan.create.length} new</span>
+                <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-800">{plan.update.length} changed</span>
+                <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-800">{plan.unchanged.length} unchanged</span>
+                <span className="px-3 py-1 rounded-full bg-yellow-100 text-yellow-800">{plan.duplicatesInFile.length} duplicated in file</span>
+                <span className="px-3 py-1 rounded-full bg-red-100 text-red-800">{plan.invalid.length} invalid</span>
+              </div>
+
+              {plan.invalid.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-red-800 mb-2">Invalid rows</h3>
+                  <ul className="text-xs text-red-700 space-y-1">
+                    {plan.invalid.map(({ row, message }) => (
+                      <li key={`${row}-${message}`}>Row {row}: {message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.duplicatesInFile.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-yellow-800 mb-2">Duplicates in this file (skipped)</h3>
+                  <ul className="text-xs text-yellow-700 space-y-1">
+                    {plan.duplicatesInFile.map(({ row, firstRow, part, text }) => (
+                      <li key={row}>Row {row} repeats row {firstRow}: Part {part} – {text}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.create.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-green-800 mb-2">New questions</h3>
+                  <ul className="text-xs text-green-700 space-y-1">
+                    {plan.create.map(({ row, entry }) => (
+                      <li key={row}>+ Part {entry.part} · {entry.topic} – {entry.text}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.update.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-blue-800 mb-2">Changed questions</h3>
+                  <ul className="text-xs text-blue-700 space-y-3">
+                    {plan.update.map(({ row, entry, changes }) => (
+                      <li key={row}>
+                        <p className="font-medium">~ Part {entry.part} – {entry.text}</p>
+                        {Object.entries(changes).map(([field, change]) => (
+                          <p key={field} className="ml-4">
+                            {field}: <span className="line-through text-red-600">{formatValue(change?.from)}</span>
+                            {' → '}<span className="text-green-700">{formatValue(change?.to)}</span>
+                          </p>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { formatUsd, type UsageSummary } from '@/lib/usage'
+import SpendLimitsPanel from '@/components/SpendLimitsPanel'
+
+const OPERATION_LABELS: Record<string, string> = {
+  question: 'Examiner questions',
+  'follow-up': 'Follow-up questions',
+  evaluation: 'Evaluations',
+  'drill-question': 'Drill prompts',
+  'drill-evaluation': 'Drill feedback',
+  'model-answer': 'Model answers',
+  tts: 'Question audio',
+  stt: 'Transcription'
+}
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`
+
+export default function UsagePage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [days, setDays] = useState(30)
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+
+    const fetchUsage = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/usage?days=${days}`)
+        const data = await response.json()
+
+        if (response.ok) {
+          setSummary(data)
+          setError('')
+        } else {
+          setError(data.error || 'Failed to fetch usage')
+        }
+      } catch (err) {
+        console.error('Error fetching usage:', err)
+        setError('Failed to fetch usage')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchUsage()
+  }, [session, status, router, days])
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  const cacheLookups = summary?.byOperation.reduce((sum, usage) => sum + usage.cacheHits + usage.cacheMisses, 0) ?? 0
+  const cacheHits = summary?.byOperation.reduce((sum, usage) => sum + usage.cacheHits, 0) ?? 0
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <Link href="/dashboard" className="text-blue-600 hover:text-blue-800">
+                ← Back to Dashboard
+              </Link>
+              <h1 className="text-xl font-semibold text-gray-900">
+                AI Usage
+              </h1>
+            </div>
+            <div className="flex items-center">
+              <select
+                value={days}
+                onChange={(e) => setDays(parseInt(e.target.value))}
+                className="border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value={7}>Last 7 days</option>
+                <option value={30}>Last 30 days</option>
+                <option value={90}>Last 90 days</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <p className="text-sm text-gray-600">
+            Costs are estimates from list prices and the token counts each call reported. Your provider&apos;s bill is the final word.
+          </p>
+
+          <SpendLimitsPanel isAdmin={session.user?.role === 'admin'} />
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-red-600">{error}</p>
+            </div>
+          )}
+
+          {loading || !summary ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="bg-white rounded-lg shadow p-6">
+                  <p className="text-sm text-gray-600">Estimated cost</p>
+                  <p className="text-3xl font-bold text-gray-900">{formatUsd(summary.totalCostUsd)}</p>
+                </div>
+                <div className="bg-white rounded-lg shadow p-6">
+                  <p className="text-sm text-gray-600">AI calls</p>
+                  <p className="text-3xl font-bold text-gray-900">{summary.totalCalls}</p>
+                </div>
+                <div className="bg-white rounded-lg shadow p-6">
+                  <p className="text-sm text-gray-600">Cache hit rate</p>
+                  <p className="text-3xl font-bold text-gray-900">
+                    {cacheLookups > 0 ? formatPercent(cacheHits / cacheLookups) : '–'}
+                  </p>
+                </div>
+              </div>
+
+              {/* Per operation */}
+              <div className="bg-white rounded-lg shadow p-6 overflow-x-auto">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">By feature</h2>
+                {summary.byOperation.length === 0 ? (
+                  <p className="text-sm text-gray-600">No AI calls in this period.</p>
+                ) : (
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b">
+                        <th className="py-2 pr-4">Feature</th>
+                        <th className="py-2 pr-4">Calls</th>
+                        <th className="py-2 pr-4">Cache hits / misses</th>
+                        <th className="py-2 pr-4">Hit rate</th>
+                        <th className="py-2 pr-4">Tokens in / out</th>
+                        <th className="py-2">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summary.byOperation.map(usage => (
+                        <tr key={usage.operation} className="border-b last:border-0">
+                          <td className="py-2 pr-4 text-gray-900">{OPERATION_LABELS[usage.operation] ?? usage.operation}</td>
+                          <td className="py-2 pr-4">{usage.calls}</td>
+                          <td className="py-2 pr-4">{usage.cacheHits} / {usage.cacheMisses}</td>
+                          <td className="py-2 pr-4">
+                            {usage.cacheHits + usage.cacheMisses > 0 ? formatPercent(usage.hitRate) : '–'}
+                          </td>
+                          <td className="py-2 pr-4">{usage.inputTokens.toLocaleString()} / {usage.outputTokens.toLocaleString()}</td>
+                          <td className="py-2">{formatUsd(usage.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {/* Per session */}
+              <div className="bg-white rounded-lg shadow p-6">
+                <h2 className="text-lg font-medium text-gray-900 mb-4">Recent practice sessions</h2>
+                {summary.bySession.length === 0 ? (
+                  <p className="text-sm text-gray-600">No practice sessions in this period.</p>
+                ) : (
+                  <ul className="divide-y text-sm">
+                    {summary.bySession.map(usage => (
+                      <li key={usage.sessionId} className="py-2 flex justify-between">
+                        <span className="text-gray-700">
+                          {new Date(usage.startedAt).toLocaleString()}
+                          {usage.sessionId.startsWith('drill-') && <span className="ml-2 text-purple-700">Drill</span>}
+                        </span>
+                        <span className="text-gray-900">
+                          {usage.calls} calls · {formatUsd(usage.costUsd)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Per day */}
+              {summary.byDay.length > 0 && (
+                <div className="bg-white rounded-lg shadow p-6">
+                  <h2 className="text-lg font-medium text-gray-900 mb-4">Daily spend</h2>
+                  <ul className="text-sm space-y-1">
+                    {summary.byDay.map(day => (
+                      <li key={day.date} className="flex justify-between">
+                        <span className="text-gray-700">{day.date}</span>
+                        <span className="text-gray-900">{day.calls} calls · {formatUsd(day.costUsd)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,95 +1,156 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Settings, User, LogIn, LogOut, History } from 'lucide-react';
 import { useSession, signIn, signOut } from 'next-auth/react';
 import Link from 'next/link';
 import TestSession from '@/components/TestSession';
 import { useError } from '@/contexts/ErrorContext';
-import { OpenAIService } from '@/lib/openai';
+import type { TestMode, TestStep } from '@/lib/test-plan';
+import { COST_PROFILES, COST_PROFILE_NAMES, DEFAULT_COST_PROFILE, type CostProfileName } from '@/lib/cost-profiles';
+
+const LEGACY_API_KEY_STORAGE = 'ielts-api-key';
 
-type TestPart = 1 | 2 | 3;
 type TestPhase = 'setup' | 'active' | 'completed';
 
 interface TestSession {
-  part: TestPart;
+  mode: TestMode;
+  plan?: TestStep[];
   phase: TestPhase;
   currentQuestion: number;
   responses: string[];
 }
 
+interface StoredApiKey {
+  id: string;
+  lastFour: string;
+  lastValidatedAt?: string;
+  lastValidationError?: string;
+}
+
 export default function IELTSSpeakingPartner() {
   const { data: userSession, status } = useSession();
   const [apiKey, setApiKey] = useState('');
   const [isApiKeySet, setIsApiKeySet] = useState(false);
+  const [hasServerKey, setHasServerKey] = useState(false);
+  const [storedKey, setStoredKey] = useState<StoredApiKey | null>(null);
   const [session, setSession] = useState<TestSession>({
-    part: 1,
+    mode: 1,
     phase: 'setup',
     currentQuestion: 0,
     responses: []
   });
   const [showSettings, setShowSettings] = useState(false);
   const [isValidatingKey, setIsValidatingKey] = useState(false);
+  const [revisitWeakTopics, setRevisitWeakTopics] = useState(false);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [costProfile, setCostProfile] = useState<CostProfileName>(DEFAULT_COST_PROFILE);
   const { showError } = useError();
 
-  // API Key storage functions
-  const saveApiKey = (key: string) => {
-    const expirationTime = Date.now() + (3 * 24 * 60 * 60 * 1000); // 3 days in milliseconds
-    const apiKeyData = {
-      key: key,
-      expiration: expirationTime
-    };
-    localStorage.setItem('ielts-api-key', JSON.stringify(apiKeyData));
+  // API keys live encrypted in the user's account (see /api/api-keys)
+  const loadStoredApiKey = async (): Promise<StoredApiKey | null> => {
+    const response = await fetch('/api/api-keys');
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.apiKeys.find((key: StoredApiKey & { status: string }) => key.status === 'active') || null;
   };
 
-  const loadApiKey = () => {
-    try {
-      const storedData = localStorage.getItem('ielts-api-key');
-      if (storedData) {
-        const apiKeyData = JSON.parse(storedData);
-        if (Date.now() < apiKeyData.expiration) {
-          return apiKeyData.key;
-        } else {
-          // Key has expired, remove it
-          localStorage.removeItem('ielts-api-key');
-        }
-      }
-    } catch (error) {
-      console.error('Error loading API key from localStorage:', error);
-      localStorage.removeItem('ielts-api-key');
-    }
-    return null;
+  const saveApiKey = async (key: string): Promise<{ apiKey?: StoredApiKey; error?: string }> => {
+    const response = storedKey
+      ? await fetch(`/api/api-keys/${storedKey.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'rotate', apiKey: key })
+        })
+      : await fetch('/api/api-keys', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ apiKey: key })
+        });
+    const data = await response.json();
+    return response.ok ? { apiKey: data.apiKey } : { error: data.error };
   };
 
-  const clearApiKey = () => {
-    localStorage.removeItem('ielts-api-key');
+  const clearApiKey = async () => {
+    if (storedKey) {
+      const response = await fetch(`/api/api-keys/${storedKey.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        showError('Failed to revoke API key. Please try again.');
+        return;
+      }
+    }
+    setStoredKey(null);
     setApiKey('');
     setIsApiKeySet(false);
   };
 
-  // Load API key on component mount
+  // Resolve which key (organisation or stored) AI calls will use once signed in
   useEffect(() => {
-    const storedApiKey = loadApiKey();
-    if (storedApiKey) {
-      setApiKey(storedApiKey);
-      setIsApiKeySet(true);
+    if (!userSession) return;
+
+    const resolveKey = async () => {
+      const response = await fetch('/api/ai/key-status');
+      if (!response.ok) return;
+      const { hasServerKey } = await response.json();
+      if (hasServerKey) {
+        setHasServerKey(true);
+        setIsApiKeySet(true);
+        return;
+      }
+
+      const activeKey = await loadStoredApiKey();
+      if (activeKey) {
+        setStoredKey(activeKey);
+        setIsApiKeySet(true);
+      }
+      // Keys saved by older versions are no longer kept in the browser
+      localStorage.removeItem(LEGACY_API_KEY_STORAGE);
+    };
+
+    resolveKey().catch(error => console.error('Error loading API key:', error));
+
+    fetch('/api/settings')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => data && setCostProfile(data.costProfile))
+      .catch(error => console.error('Error loading settings:', error));
+  }, [userSession]);
+
+  const saveCostProfile = async (profile: CostProfileName) => {
+    const previous = costProfile;
+    setCostProfile(profile);
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ costProfile: profile })
+      });
+      if (!response.ok) throw new Error(`Status ${response.status}`);
+    } catch {
+      setCostProfile(previous);
+      showError('Failed to save the cost profile. Please try again.');
     }
-  }, []);
+  };
 
   const handleApiKeySubmit = async () => {
+    // Keys are stored against the account, so a session is required
+    if (!userSession) {
+      signIn();
+      return;
+    }
+
     if (apiKey.trim()) {
       setIsValidatingKey(true);
       try {
-        const openAIService = new OpenAIService(apiKey.trim());
-        const validation = await openAIService.validateApiKey();
-        if (validation.isValid) {
-          saveApiKey(apiKey.trim());
+        const result = await saveApiKey(apiKey.trim());
+        if (result.apiKey) {
+          setStoredKey(result.apiKey);
+          setApiKey('');
           setIsApiKeySet(true);
           setShowSettings(false);
         } else {
-          showError(validation.error || 'Invalid API key. Please check your key and try again.');
+          showError(result.error || 'Invalid API key. Please check your key and try again.');
         }
-      } catch (error) {
+      } catch {
         showError('Failed to validate API key. Please check your internet connection and try again.');
       } finally {
         setIsValidatingKey(false);
@@ -97,14 +158,54 @@ export default function IELTSSpeakingPartner() {
     }
   };
 
-  const startTest = (part: TestPart) => {
+  // Signed-in users get topics they have not practised yet (or their weak ones);
+  // if planning fails the session still starts with a locally shuffled plan
+  const fetchPlan = useCallback(async (mode: TestMode, topic?: string): Promise<TestStep[] | undefined> => {
+    if (!userSession) return undefined;
+
+    try {
+      const params = new URLSearchParams({
+        mode: String(mode),
+        strategy: revisitWeakTopics ? 'weak' : 'fresh'
+      });
+      if (topic) params.append('topic', topic);
+      const response = await fetch(`/api/test-plan?${params}`);
+      if (!response.ok) return undefined;
+      const data = await response.json();
+      return data.plan;
+    } catch (error) {
+      console.error('Error planning test:', error);
+      return undefined;
+    }
+  }, [userSession, revisitWeakTopics]);
+
+  const startTest = useCallback(async (mode: TestMode, topic?: string) => {
+    setIsPlanning(true);
+    const plan = await fetchPlan(mode, topic);
+    setIsPlanning(false);
+
     setSession({
-      part,
+      mode,
+      plan,
       phase: 'active',
       currentQuestion: 0,
       responses: []
     });
-  };
+  }, [fetchPlan]);
+
+  // Review links from the dashboard queue open here as /?mode=1|2&topic=...
+  useEffect(() => {
+    if (!isApiKeySet || !userSession) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const mode = params.get('mode');
+    const topic = params.get('topic');
+    if ((mode !== '1' && mode !== '2') || !topic) return;
+
+    // Cleared first, so later runs of this effect find nothing to start
+    window.history.replaceState(null, '', window.location.pathname);
+    startTest(Number(mode) as TestMode, topic);
+  }, [isApiKeySet, userSession, startTest]);
 
   if (!isApiKeySet) {
     return (
@@ -135,12 +236,12 @@ export default function IELTSSpeakingPartner() {
               disabled={!apiKey.trim() || isValidatingKey}
               className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
             >
-              {isValidatingKey ? 'Validating...' : 'Start Practice'}
+              {isValidatingKey ? 'Validating...' : userSession ? 'Start Practice' : 'Sign In to Start'}
             </button>
           </div>
           
           <div className="mt-6 text-xs text-gray-500 text-center">
-            Your API key is stored locally for 3 days and never sent to our servers
+            Your API key is encrypted and stored in your account so you can practise on any device
           </div>
         </div>
       </div>
@@ -221,6 +322,18 @@ export default function IELTSSpeakingPartner() {
               <div className="mb-8">
                 <h2 className="text-3xl font-bold text-gray-800 mb-2">Choose Your Practice Test</h2>
                 <p className="text-gray-600">Select which part of the IELTS Speaking test you&apos;d like to practice</p>
+                {userSession && (
+                  <label className="mt-4 flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={revisitWeakTopics}
+                      onChange={(e) => setRevisitWeakTopics(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    Revisit topics where I scored below Band 6 (otherwise new topics come first)
+                  </label>
+                )}
+                {isPlanning && <p className="mt-2 text-sm text-gray-500">Choosing your topics...</p>}
               </div>
 
               <div className="grid md:grid-cols-3 gap-6">
@@ -237,7 +350,8 @@ export default function IELTSSpeakingPartner() {
                 </ul>
                 <button
                   onClick={() => startTest(1)}
-                  className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors"
+                  disabled={isPlanning}
+                  className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400"
                 >
                   Start Part 1
                 </button>
@@ -256,7 +370,8 @@ export default function IELTSSpeakingPartner() {
                 </ul>
                 <button
                   onClick={() => startTest(2)}
-                  className="w-full bg-orange-600 text-white py-2 px-4 rounded-md hover:bg-orange-700 transition-colors"
+                  disabled={isPlanning}
+                  className="w-full bg-orange-600 text-white py-2 px-4 rounded-md hover:bg-orange-700 transition-colors disabled:bg-gray-400"
                 >
                   Start Part 2
                 </button>
@@ -275,13 +390,31 @@ export default function IELTSSpeakingPartner() {
                 </ul>
                 <button
                   onClick={() => startTest(3)}
-                  className="w-full bg-purple-600 text-white py-2 px-4 rounded-md hover:bg-purple-700 transition-colors"
+                  disabled={isPlanning}
+                  className="w-full bg-purple-600 text-white py-2 px-4 rounded-md hover:bg-purple-700 transition-colors disabled:bg-gray-400"
                 >
                   Start Part 3
                 </button>
               </div>
             </div>
 
+            {/* Full mock test */}
+            <div className="mt-6 bg-gradient-to-br from-blue-50 to-indigo-100 rounded-lg p-6 border border-indigo-200 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold text-indigo-800 mb-1">Full Mock Test</h2>
+                <p className="text-indigo-700 text-sm">
+                  Parts 1, 2 and 3 back to back with exam timing (11-14 minutes), saved as one session
+                </p>
+              </div>
+              <button
+                onClick={() => startTest('full')}
+                disabled={isPlanning}
+                className="bg-indigo-600 text-white py-2 px-6 rounded-md hover:bg-indigo-700 transition-colors whitespace-nowrap disabled:bg-gray-400"
+              >
+                Start Mock Test
+              </button>
+            </div>
+
             <div className="mt-8 bg-blue-50 rounded-lg p-6 border border-blue-200">
               <h3 className="text-lg font-semibold text-blue-800 mb-3">How it works</h3>
               <div className="grid md:grid-cols-2 gap-4 text-blue-700 text-sm">
@@ -317,16 +450,52 @@ export default function IELTSSpeakingPartner() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     OpenAI API Key
                   </label>
-                  <input
-                    type="password"
-                    value={apiKey}
-                    onChange={(e) => setApiKey(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                  <p className="text-xs text-gray-500 mt-2">
-                    API key is stored locally for 3 days, then automatically removed
-                  </p>
+                  {hasServerKey ? (
+                    <p className="text-sm text-gray-600">
+                      Your organisation provides the API key for this app.
+                    </p>
+                  ) : (
+                    <>
+                      {storedKey && (
+                        <p className="text-sm text-gray-600 mb-2">
+                          Stored key ending in ••••{storedKey.lastFour}
+                          {storedKey.lastValidatedAt && (
+                            <> · last validated {new Date(storedKey.lastValidatedAt).toLocaleDateString()}</>
+                          )}
+                        </p>
+                      )}
+                      <input
+                        type="password"
+                        value={apiKey}
+                        onChange={(e) => setApiKey(e.target.value)}
+                        placeholder={storedKey ? 'Enter a new key to rotate' : 'sk-...'}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <p className="text-xs text-gray-500 mt-2">
+                        API key is encrypted and stored in your account until you revoke it
+                      </p>
+                    </>
+                  )}
                 </form>
+                {userSession && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Cost profile
+                    </label>
+                    <select
+                      value={costProfile}
+                      onChange={(e) => saveCostProfile(e.target.value as CostProfileName)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {COST_PROFILE_NAMES.map(name => (
+                        <option key={name} value={name}>{COST_PROFILES[name].label}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {COST_PROFILES[costProfile].description}
+                    </p>
+                  </div>
+                )}
                 <div className="flex gap-3">
                   <button
                     onClick={() => setShowSettings(false)}
@@ -336,13 +505,14 @@ export default function IELTSSpeakingPartner() {
                   </button>
                   <button
                     onClick={clearApiKey}
-                    className="flex-1 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+                    disabled={hasServerKey || !storedKey}
+                    className="flex-1 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
                   >
-                    Clear Key
+                    Revoke Key
                   </button>
                   <button
                     onClick={handleApiKeySubmit}
-                    disabled={isValidatingKey}
+                    disabled={hasServerKey || !apiKey.trim() || isValidatingKey}
                     className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
                   >
                     {isValidatingKey ? 'Validating...' : 'Save'}
@@ -359,8 +529,8 @@ export default function IELTSSpeakingPartner() {
   // Active test interface - use the TestSession component
   return (
     <TestSession 
-      part={session.part} 
-      apiKey={apiKey} 
+      mode={session.mode}
+      plan={session.plan}
       onExit={() => setSession(prev => ({ ...prev, phase: 'setup' }))}
     />
   );
@@ -0,0 +1,397 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Mic, MicOff, Play, Pause, Clock, MessageSquare, Star, Target } from 'lucide-react';
+import { AIClient } from '@/lib/ai-client';
+import { useAudioRecorder } from '@/hooks/useAudioRecorder';
+import { useSession } from 'next-auth/react';
+import { CRITERIA, type CriterionKey, type DrillEvaluation } from '@/lib/evaluation';
+import { DRILLS, measureDrillResponse, type DrillMetrics } from '@/lib/drills';
+import type { TranscriptTimings } from '@/lib/providers';
+import { analyseFluency, type FluencyMetrics } from '@/lib/fluency';
+
+interface DrillSessionProps {
+  criterion: CriterionKey;
+  onExit: () => void;
+}
+
+interface DrillResponse {
+  questionIndex: number;
+  text: string;
+  timings: TranscriptTimings;
+  fluency: FluencyMetrics;
+  metrics: DrillMetrics;
+  evaluation?: DrillEvaluation;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export default function DrillSession({ criterion, onExit }: DrillSessionProps) {
+  const drill = DRILLS[criterion];
+  const criterionLabel = CRITERIA.find(({ key }) => key === criterion)?.label ?? criterion;
+  const { data: session } = useSession();
+  const [questions, setQuestions] = useState<string[]>([]);
+  const [responses, setResponses] = useState<DrillResponse[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isLoadingQuestion, setIsLoadingQuestion] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [aiError, setAIError] = useState('');
+  const [remaining, setRemaining] = useState(drill.timeLimitSeconds);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sessionId] = useState(() => `drill-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+  const [aiClient] = useState(() => new AIClient(sessionId));
+  const [sessionStartTime] = useState(() => Date.now());
+  const recordingStartedAt = useRef(0);
+  const spokenSeconds = useRef(0);
+
+  const {
+    isRecording,
+    isPlaying,
+    audioBlob,
+    startRecording,
+    stopRecording,
+    playAudio,
+    stopAudio,
+    clearAudio,
+    error: audioError
+  } = useAudioRecorder();
+
+  const loadQuestion = useCallback(async (index: number, previousQuestions: string[]) => {
+    setIsLoadingQuestion(true);
+    setAIError('');
+    try {
+      const question = await aiClient.generateDrillQuestion(criterion, index, previousQuestions);
+      setQuestions(prev => {
+        const updated = [...prev];
+        updated[index] = question;
+        return updated;
+      });
+    } catch (error) {
+      console.error('Error generating drill question:', error);
+      setAIError(error instanceof Error ? error.message : 'The prompt could not be loaded.');
+    } finally {
+      setIsLoadingQuestion(false);
+    }
+  }, [aiClient, criterion]);
+
+  useEffect(() => {
+    loadQuestion(0, []);
+  }, [loadQuestion]);
+
+  const stopAndMeasure = useCallback(() => {
+    spokenSeconds.current = Math.round((Date.now() - recordingStartedAt.current) / 1000);
+    stopRecording();
+  }, [stopRecording]);
+
+  // Count down while recording and cut the answer off at the drill's time limit
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const interval = setInterval(() => {
+      const left = drill.timeLimitSeconds - Math.floor((Date.now() - recordingStartedAt.current) / 1000);
+      setRemaining(Math.max(0, left));
+      if (left <= 0) {
+        stopAndMeasure();
+      }
+    }, 250);
+    return () => clearInterval(interval);
+  }, [isRecording, drill.timeLimitSeconds, stopAndMeasure]);
+
+  const handleRecordingToggle = useCallback(async () => {
+    if (isRecording) {
+      stopAndMeasure();
+      return;
+    }
+
+    clearAudio();
+    setRemaining(drill.timeLimitSeconds);
+    recordingStartedAt.current = Date.now();
+    await startRecording();
+  }, [isRecording, stopAndMeasure, clearAudio, startRecording, drill.timeLimitSeconds]);
+
+  const processResponse = useCallback(async () => {
+    const question = questions[currentIndex];
+    if (!audioBlob || !question) return;
+
+    setIsProcessing(true);
+    setAIError('');
+    try {
+      const { text: transcription, ...timings } = await aiClient.speechToText(audioBlob);
+      const metrics = measureDrillResponse(transcription, spokenSeconds.current);
+      const evaluation = transcription.trim()
+        ? await aiClient.evaluateDrillResponse(criterion, question, transcription, metrics)
+        : null;
+
+      setResponses(prev => [...prev, {
+        questionIndex: currentIndex,
+        text: transcription,
+        timings,
+        fluency: analyseFluency(transcription, timings),
+        metrics,
+        evaluation: evaluation ?? undefined
+      }]);
+    } catch (error) {
+      console.error('Error processing drill response:', error);
+      // The recording is still there, so the learner can submit it again
+      setAIError(error instanceof Error ? error.message : 'Your response could not be processed.');
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [audioBlob, questions, currentIndex, aiClient, criterion]);
+
+  const nextQuestion = useCallback(() => {
+    const nextIndex = currentIndex + 1;
+    setCurrentIndex(nextIndex);
+    setRemaining(drill.timeLimitSeconds);
+    clearAudio();
+    loadQuestion(nextIndex, questions);
+  }, [currentIndex, drill.timeLimitSeconds, clearAudio, loadQuestion, questions]);
+
+  // Each drill is saved once, as its own session type, when the learner finishes
+  const finishDrill = useCallback(async () => {
+    if (session?.user?.id && responses.length > 0) {
+      setIsSaving(true);
+      try {
+        const response = await fetch('/api/user-history', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            sessionId,
+            sessionType: 'drill',
+            drillCriterion: criterion,
+            questions: responses.map(r => ({
+              question: questions[r.questionIndex],
+              userAnswer: r.text,
+              timings: r.timings,
+              fluency: r.fluency,
+              drill: r.evaluation ? {
+                criterion,
+                band: r.evaluation.band,
+                justification: r.evaluation.justification,
+                feedback: r.evaluation.feedback,
+                improvements: r.evaluation.improvements,
+                metrics: r.metrics
+              } : undefined
+            })),
+            duration: Math.round((Date.now() - sessionStartTime) / 1000),
+            completedAt: new Date().toISOString()
+          })
+        });
+
+        if (!response.ok) {
+          console.error('Failed to save drill:', await response.text());
+        }
+      } catch (error) {
+        console.error('Error saving drill:', error);
+      } finally {
+        setIsSaving(false);
+      }
+    }
+    onExit();
+  }, [session, responses, sessionId, criterion, questions, sessionStartTime, onExit]);
+
+  const currentQuestion = questions[currentIndex];
+  const currentResponse = responses.find(r => r.questionIndex === currentIndex);
+  const isLastQuestion = currentIndex >= drill.questionCount - 1;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          {/* Header */}
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+                <Target size={24} className="text-purple-600" />
+                {drill.title}: {criterionLabel}
+              </h1>
+              <div className="flex items-center gap-4 mt-2 text-gray-600">
+                <div className="flex items-center gap-2">
+                  <Clock size={16} />
+                  <span>{formatTime(drill.timeLimitSeconds)} per answer</span>
+                </div>
+                <div>
+                  Prompt {currentIndex + 1} of {drill.questionCount}
+                </div>
+              </div>
+            </div>
+            <button
+              onClick={onExit}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Exit Drill
+            </button>
+          </div>
+
+          <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 mb-6 text-sm text-purple-800">
+            {drill.instructions}
+          </div>
+
+          {/* Prompt */}
+          <div className="bg-gray-50 rounded-lg p-6 mb-8">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">Drill Prompt</h3>
+            {isLoadingQuestion ? (
+              <div className="flex items-center gap-2 text-gray-600">
+                <div className="animate-spin w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full"></div>
+                <span>Generating prompt...</span>
+              </div>
+            ) : (
+              <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">
+                {currentQuestion || 'Loading prompt...'}
+              </p>
+            )}
+          </div>
+
+          {/* Audio Controls */}
+          <div className="flex justify-center items-center gap-8 mb-8">
+            <button
+              onClick={handleRecordingToggle}
+              disabled={isProcessing || isLoadingQuestion || !currentQuestion || !!currentResponse}
+              className={`p-6 rounded-full transition-all ${
+                isRecording
+                  ? 'bg-red-500 text-white shadow-lg scale-110 animate-pulse'
+                  : 'bg-blue-500 text-white hover:bg-blue-600'
+              } disabled:bg-gray-400`}
+            >
+              {isRecording ? <MicOff size={32} /> : <Mic size={32} />}
+            </button>
+
+            <div className="text-center">
+              <p className={`text-2xl font-bold ${isRecording && remaining <= 10 ? 'text-red-600' : 'text-gray-800'}`}>
+                {formatTime(remaining)}
+              </p>
+              <div className="text-xs text-gray-500">
+                {isRecording ? 'Recording stops automatically at 0:00' : 'Click to record your answer'}
+              </div>
+            </div>
+
+            <button
+              onClick={isPlaying ? stopAudio : playAudio}
+              disabled={!audioBlob}
+              className="p-6 rounded-full bg-green-500 text-white hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              {isPlaying ? <Pause size={32} /> : <Play size={32} />}
+            </button>
+          </div>
+
+          {audioError && (
+            <div className="bg-red-100 border border-red-300 rounded-lg p-4 mb-6">
+              <p className="text-red-700 text-sm">{audioError}</p>
+            </div>
+          )}
+
+          {aiError && !isProcessing && !isLoadingQuestion && (
+            <div className="bg-red-100 border border-red-300 rounded-lg p-4 mb-6">
+              <p className="text-red-700 text-sm">{aiError}</p>
+              {!currentQuestion && (
+                <button
+                  onClick={() => loadQuestion(currentIndex, questions)}
+                  className="mt-3 px-4 py-2 bg-red-600 text-white text-sm rounded-md hover:bg-red-700 transition-colors"
+                >
+                  Try again
+                </button>
+              )}
+            </div>
+          )}
+
+          {isProcessing && (
+            <div className="bg-blue-100 border border-blue-300 rounded-lg p-4 mb-6">
+              <div className="flex items-center gap-2">
+                <div className="animate-spin w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full"></div>
+                <span className="text-blue-700 text-sm">Processing your response...</span>
+              </div>
+            </div>
+          )}
+
+          {currentResponse && (
+            <>
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+                <h4 className="font-medium text-green-800 mb-2 flex items-center gap-2">
+                  <MessageSquare size={16} />
+                  Your Response
+                </h4>
+                <p className="text-green-700 text-sm mb-3">{currentResponse.text}</p>
+                <div className="flex flex-wrap gap-4 text-xs text-green-800">
+                  <span>{currentResponse.metrics.wordCount} words</span>
+                  <span>{currentResponse.metrics.wordsPerMinute} words per minute</span>
+                  <span>{currentResponse.metrics.fillerWords} filler words</span>
+                </div>
+              </div>
+
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 mb-6">
+                <h4 className="font-medium text-yellow-800 mb-4 flex items-center gap-2">
+                  <Star size={16} />
+                  {criterionLabel} Feedback
+                </h4>
+                {currentResponse.evaluation ? (
+                  <>
+                    <div className="text-2xl font-bold text-yellow-700 mb-2">
+                      Band: {currentResponse.evaluation.band}
+                    </div>
+                    <p className="text-yellow-700 text-sm mb-2">{currentResponse.evaluation.justification}</p>
+                    <p className="text-yellow-700 text-sm mb-4">{currentResponse.evaluation.feedback}</p>
+                    {currentResponse.evaluation.improvements.length > 0 && (
+                      <>
+                        <h5 className="font-medium text-yellow-800 mb-2">Next steps:</h5>
+                        <ul className="text-yellow-700 text-sm space-y-1">
+                          {currentResponse.evaluation.improvements.map((improvement, index) => (
+                            <li key={index} className="flex items-start gap-2">
+                              <span className="text-yellow-500 mt-1">•</span>
+                              <span>{improvement}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                  </>
+                ) : (
+                  <div className="bg-white rounded-md border border-yellow-100 p-4">
+                    <p className="font-medium text-yellow-800 mb-1">Evaluation unavailable</p>
+                    <p className="text-yellow-700 text-sm">
+                      The examiner could not produce a reliable band for this answer. Your transcript and timing have been kept.
+                    </p>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex justify-end gap-4">
+            {audioBlob && !isRecording && !currentResponse && (
+              <button
+                onClick={processResponse}
+                disabled={isProcessing}
+                className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 transition-colors"
+              >
+                Submit Response
+              </button>
+            )}
+
+            {!isLastQuestion ? (
+              <button
+                onClick={nextQuestion}
+                disabled={isProcessing || isRecording}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+              >
+                Next Prompt
+              </button>
+            ) : (
+              <button
+                onClick={finishDrill}
+                disabled={isProcessing || isRecording || isSaving}
+                className="px-6 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-400 transition-colors"
+              >
+                {isSaving ? 'Saving...' : 'Finish Drill'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
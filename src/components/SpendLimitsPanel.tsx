@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useBudgetStatus } from '@/hooks/useBudgetStatus';
+import { formatUsd, type BudgetStatus, type SpendLimits } from '@/lib/usage';
+
+interface SpendLimitsPanelProps {
+  isAdmin: boolean;
+}
+
+interface LimitInputs {
+  dailyUsd: string;
+  monthlyUsd: string;
+}
+
+const LEVEL_STYLES: Record<BudgetStatus['level'], string> = {
+  ok: 'bg-green-100 text-green-800',
+  warning: 'bg-amber-100 text-amber-800',
+  exceeded: 'bg-red-100 text-red-800'
+};
+
+const LEVEL_LABELS: Record<BudgetStatus['level'], string> = {
+  ok: 'Within limits',
+  warning: 'Close to a limit',
+  exceeded: 'Limit reached'
+};
+
+const toInputs = (limits: SpendLimits): LimitInputs => ({
+  dailyUsd: limits.dailyUsd?.toString() ?? '',
+  monthlyUsd: limits.monthlyUsd?.toString() ?? ''
+});
+
+// An empty field removes the cap
+const toPayload = (inputs: LimitInputs) => ({
+  dailyUsd: inputs.dailyUsd.trim() ? parseFloat(inputs.dailyUsd) : null,
+  monthlyUsd: inputs.monthlyUsd.trim() ? parseFloat(inputs.monthlyUsd) : null
+});
+
+const describeLimit = (spent: number, limit?: number) =>
+  limit ? `${formatUsd(spent)} of ${formatUsd(limit)}` : `${formatUsd(spent)} (no limit)`;
+
+function LimitFields({ inputs, onChange }: { inputs: LimitInputs; onChange: (inputs: LimitInputs) => void }) {
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Daily limit (USD)</label>
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={inputs.dailyUsd}
+          onChange={(e) => onChange({ ...inputs, dailyUsd: e.target.value })}
+          placeholder="No limit"
+          className="w-32 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Monthly limit (USD)</label>
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={inputs.monthlyUsd}
+          onChange={(e) => onChange({ ...inputs, monthlyUsd: e.target.value })}
+          placeholder="No limit"
+          className="w-32 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+    </>
+  );
+}
+
+export default function SpendLimitsPanel({ isAdmin }: SpendLimitsPanelProps) {
+  const { status, personalLimits, refresh } = useBudgetStatus();
+  const [personalInputs, setPersonalInputs] = useState<LimitInputs>(toInputs({}));
+  const [learnerEmail, setLearnerEmail] = useState('');
+  const [learnerInputs, setLearnerInputs] = useState<LimitInputs | null>(null);
+  const [defaults, setDefaults] = useState<SpendLimits>({});
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setPersonalInputs(toInputs(personalLimits));
+  }, [personalLimits]);
+
+  const request = async (url: string, init?: RequestInit) => {
+    setMessage('');
+    setError('');
+    const response = await fetch(url, init);
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.details?.[0]?.message || data.error || 'Request failed');
+      return null;
+    }
+    return data;
+  };
+
+  const savePersonalLimits = async () => {
+    const data = await request('/api/budget', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toPayload(personalInputs))
+    });
+    if (!data) return;
+    setMessage(data.message);
+    await refresh();
+  };
+
+  const loadLearner = async () => {
+    const data = await request(`/api/budget/organisation?email=${encodeURIComponent(learnerEmail)}`);
+    if (!data) return;
+    setLearnerInputs(toInputs(data.limits));
+    setDefaults(data.defaults);
+  };
+
+  const saveLearnerLimits = async () => {
+    if (!learnerInputs) return;
+    const data = await request('/api/budget/organisation', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: learnerEmail, ...toPayload(learnerInputs) })
+    });
+    if (!data) return;
+    setMessage(data.message);
+    await refresh();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-medium text-gray-900 mb-2">Spend limits</h2>
+        <p className="text-sm text-gray-600">
+          From 80% of a limit you will see a warning. Once a limit is reached, general model answers pause,
+          examiner audio drops to standard quality and feedback uses a cheaper model until the day or month resets (UTC).
+        </p>
+      </div>
+
+      {status && (
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <span className={`px-2 py-1 rounded-full font-medium ${LEVEL_STYLES[status.level]}`}>
+            {LEVEL_LABELS[status.level]}
+          </span>
+          <span className="text-gray-700">
+            {status.keySource === 'organisation' ? 'Organisation key' : 'Your API key'}
+          </span>
+          <span className="text-gray-700">Today: {describeLimit(status.spent.dailyUsd, status.limits.dailyUsd)}</span>
+          <span className="text-gray-700">This month: {describeLimit(status.spent.monthlyUsd, status.limits.monthlyUsd)}</span>
+          {status.organisation && Boolean(status.organisation.limits.dailyUsd || status.organisation.limits.monthlyUsd) && (
+            <span className="text-gray-700">
+              Everyone on the key: today {describeLimit(status.organisation.spent.dailyUsd, status.organisation.limits.dailyUsd)},
+              this month {describeLimit(status.organisation.spent.monthlyUsd, status.organisation.limits.monthlyUsd)}
+            </span>
+          )}
+        </div>
+      )}
+
+      <div>
+        <h3 className="font-medium text-gray-900 mb-1">Your API key</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Applies when calls use a key from your settings. Leave a field empty for no limit.
+        </p>
+        <div className="flex flex-wrap gap-4 items-end">
+          <LimitFields inputs={personalInputs} onChange={setPersonalInputs} />
+          <button
+            onClick={savePersonalLimits}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Save limits
+          </button>
+        </div>
+      </div>
+
+      {isAdmin && (
+        <div>
+          <h3 className="font-medium text-gray-900 mb-1">Organisation key (admin)</h3>
+          <p className="text-sm text-gray-600 mb-3">
+            Override a learner&apos;s limits on the shared key. Empty fields fall back to the deployment defaults
+            {learnerInputs && ` (daily ${defaults.dailyUsd ? formatUsd(defaults.dailyUsd) : 'none'}, monthly ${defaults.monthlyUsd ? formatUsd(defaults.monthlyUsd) : 'none'})`}.
+          </p>
+          <div className="flex flex-wrap gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Learner email</label>
+              <input
+                type="email"
+                value={learnerEmail}
+                onChange={(e) => {
+                  setLearnerEmail(e.target.value);
+                  setLearnerInputs(null);
+                }}
+                className="border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              onClick={loadLearner}
+              disabled={!learnerEmail}
+              className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 disabled:bg-gray-400 transition-colors"
+            >
+              Load
+            </button>
+            {learnerInputs && (
+              <>
+                <LimitFields inputs={learnerInputs} onChange={setLearnerInputs} />
+                <button
+                  onClick={saveLearnerLimits}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Save learner limits
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
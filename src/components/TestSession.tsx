@@ -1,15 +1,25 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { Mic, MicOff, Play, Pause, Volume2, Clock, MessageSquare, Star, BookOpen } from 'lucide-react';
-import { OpenAIService } from '@/lib/openai';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Mic, MicOff, Play, Pause, Volume2, Clock, MessageSquare, Star, BookOpen, NotebookPen } from 'lucide-react';
+import { AIClient } from '@/lib/ai-client';
 import { useAudioRecorder } from '@/hooks/useAudioRecorder';
+import { useLongTurn } from '@/hooks/useLongTurn';
+import { useBudgetStatus } from '@/hooks/useBudgetStatus';
 import { useSession } from 'next-auth/react';
 import GoogleTranslate from '@/components/GoogleTranslate';
+import { CRITERIA, parsePartialEvaluation, type Evaluation } from '@/lib/evaluation';
+import { buildTestPlan, PART_TIME_LIMITS, PART_2_TIMING, type TestMode, type TestStep } from '@/lib/test-plan';
+import { decideNextMove, type ExaminerMove } from '@/lib/examiner';
+import { AIUnavailableError } from '@/lib/resilience';
+import type { TranscriptTimings } from '@/lib/providers';
+import { analyseFluency, type FluencyMetrics } from '@/lib/fluency';
+import { analyseLexis, CEFR_LEVELS, type CefrLevel, type LexicalProfile } from '@/lib/lexical';
 
 interface TestSessionProps {
-  part: number;
-  apiKey: string;
+  mode: TestMode;
+  // Plan chosen on the server from the learner's history; built locally when absent
+  plan?: TestStep[];
   onExit: () => void;
 }
 
@@ -17,27 +27,114 @@ interface Question {
   id: number;
   text: string;
   audioUrl?: string;
+  move?: ExaminerMove;
 }
 
 interface Response {
   questionId: number;
   text: string;
+  timings?: TranscriptTimings;
+  fluency?: FluencyMetrics;
+  lexis?: LexicalProfile;
   audioBlob: Blob;
-  evaluation?: {
-    score: number;
-    feedback: string;
-    suggestions: string[];
-  };
+  evaluation?: Evaluation;
+  evaluationUnavailable?: boolean;
+  evaluationCancelled?: boolean;
+  modelAnswer?: string;
+  notes?: string;
+}
+
+// A recording whose submission failed, kept so the learner can resubmit it
+interface UnsentRecording {
+  audioBlob: Blob;
+  notes?: string;
+}
+
+interface AIErrorState {
+  questionIndex: number;
+  message: string;
+  // Set when the AI is unavailable: resubmitting before then would fail again
+  retryAt?: number;
 }
 
-export default function TestSession({ part, apiKey, onExit }: TestSessionProps) {
+// Panels whose text streams in, each with its own cancel button
+type StreamName = 'evaluation' | 'improved' | 'general';
+
+const toAIErrorState = (error: unknown, questionIndex: number): AIErrorState => (
+  error instanceof AIUnavailableError
+    ? { questionIndex, message: error.message, retryAt: Date.now() + error.retryAfterSeconds * 1000 }
+    : { questionIndex, message: error instanceof Error ? error.message : 'Something went wrong. Please try again.' }
+);
+
+// Shades of the vocabulary panel's CEFR bar, darker for more advanced words
+const CEFR_BAR_COLOURS: Record<CefrLevel, string> = {
+  A1: 'bg-yellow-100',
+  A2: 'bg-yellow-200',
+  B1: 'bg-yellow-300',
+  B2: 'bg-amber-400',
+  C1: 'bg-amber-500',
+  C2: 'bg-amber-600'
+};
+
+// Maps one answered question onto the UserHistory question shape
+const toHistoryQuestion = (questionData: {
+  part?: number;
+  topic?: string;
+  question: string;
+  userAnswer: string;
+  timings?: TranscriptTimings;
+  fluency?: FluencyMetrics;
+  lexis?: LexicalProfile;
+  modelAnswer?: string;
+  notes?: string;
+  evaluation?: Evaluation;
+}) => ({
+  part: questionData.part,
+  topic: questionData.topic,
+  question: questionData.question,
+  userAnswer: questionData.userAnswer,
+  timings: questionData.timings,
+  fluency: questionData.fluency,
+  lexis: questionData.lexis,
+  modelAnswer: questionData.modelAnswer,
+  notes: questionData.notes || undefined,
+  evaluation: questionData.evaluation ? {
+    bandScore: questionData.evaluation.score,
+    criteria: {
+      fluencyCoherence: questionData.evaluation.criteria.fluencyCoherence.band,
+      lexicalResource: questionData.evaluation.criteria.lexicalResource.band,
+      grammaticalRange: questionData.evaluation.criteria.grammaticalRange.band,
+      pronunciation: questionData.evaluation.criteria.pronunciation.band
+    },
+    justifications: {
+      fluencyCoherence: questionData.evaluation.criteria.fluencyCoherence.justification,
+      lexicalResource: questionData.evaluation.criteria.lexicalResource.justification,
+      grammaticalRange: questionData.evaluation.criteria.grammaticalRange.justification,
+      pronunciation: questionData.evaluation.criteria.pronunciation.justification
+    },
+    feedback: questionData.evaluation.feedback,
+    strengths: questionData.evaluation.strengths,
+    improvements: questionData.evaluation.improvements
+  } : undefined,
+  timestamp: new Date().toISOString()
+});
+
+export default function TestSession({ mode, plan, onExit }: TestSessionProps) {
   const { data: session } = useSession();
-  const [openAIService] = useState(() => new OpenAIService(apiKey));
+  const [steps] = useState(() => plan ?? buildTestPlan(mode));
+  const isFullTest = mode === 'full';
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  const part = steps[Math.min(currentQuestionIndex, steps.length - 1)].part;
+  const [partStartedAt, setPartStartedAt] = useState(0);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [responses, setResponses] = useState<Response[]>([]);
   const [isLoadingQuestion, setIsLoadingQuestion] = useState(false);
   const [isProcessingResponse, setIsProcessingResponse] = useState(false);
+  const [unsentRecordings, setUnsentRecordings] = useState<Record<number, UnsentRecording>>({});
+  const [aiError, setAIError] = useState<AIErrorState | null>(null);
+  // The evaluator's JSON so far while feedback streams in, null otherwise
+  const [evaluationDraft, setEvaluationDraft] = useState<string | null>(null);
+  const streams = useRef<Partial<Record<StreamName, AbortController>>>({});
   const [transcribedText, setTranscribedText] = useState('');
   const [showEvaluation, setShowEvaluation] = useState(false);
   const [modelAnswer, setModelAnswer] = useState('');
@@ -46,9 +143,11 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
   const [generalModelAnswer, setGeneralModelAnswer] = useState('');
   const [isLoadingGeneralModelAnswer, setIsLoadingGeneralModelAnswer] = useState(false);
   const [showGeneralModelAnswer, setShowGeneralModelAnswer] = useState(false);
+  const [notes, setNotes] = useState('');
   const [timer, setTimer] = useState(0);
   const [isTimerRunning, setIsTimerRunning] = useState(false);
   const [sessionId] = useState(() => `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+  const [openAIService] = useState(() => new AIClient(sessionId));
   const [sessionStartTime] = useState(() => Date.now());
 
   const {
@@ -63,6 +162,35 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
     error: audioError
   } = useAudioRecorder();
 
+  const beginRecording = useCallback(async () => {
+    clearAudio();
+    setTranscribedText('');
+    await startRecording();
+  }, [clearAudio, startRecording]);
+
+  const longTurn = useLongTurn({ startRecording: beginRecording, stopRecording });
+  const { status: budget, refresh: refreshBudget } = useBudgetStatus();
+  const budgetExceeded = budget?.level === 'exceeded';
+  const { startPreparation, reset: resetLongTurn } = longTurn;
+
+  // Starting a stream again replaces the previous one
+  const startStream = useCallback((name: StreamName) => {
+    streams.current[name]?.abort();
+    const controller = new AbortController();
+    streams.current[name] = controller;
+    return controller;
+  }, []);
+
+  const cancelStream = useCallback((name: StreamName) => {
+    streams.current[name]?.abort();
+  }, []);
+
+  const cancelAllStreams = useCallback(() => {
+    Object.values(streams.current).forEach(controller => controller?.abort());
+  }, []);
+
+  useEffect(() => cancelAllStreams, [cancelAllStreams]);
+
   // Timer effect
   useEffect(() => {
     let interval: NodeJS.Timeout;
@@ -82,9 +210,45 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
 
   const generateQuestion = useCallback(async (questionIndex: number) => {
     setIsLoadingQuestion(true);
+    setAIError(null);
     try {
-      const previousResponses = responses.map(r => r.text);
-      const questionText = await openAIService.generateQuestion(part, questionIndex, previousResponses);
+      const step = steps[questionIndex];
+      const partQuestionNumber = steps.slice(0, questionIndex).filter(s => s.part === step.part).length;
+      // Part 3 follows up on the cue card, so it also hears the Part 2 long turn
+      const contextParts = step.part === 3 ? [2, 3] : [step.part];
+      const previousResponses = responses
+        .filter(r => r.questionId < questionIndex && contextParts.includes(steps[r.questionId]?.part))
+        .map(r => r.text);
+      const previousQuestions = questions
+        .filter((q, index) => q && index < questionIndex && steps[index]?.part === step.part)
+        .map(q => q.text);
+      // In a full test, Part 3 discusses the theme of the cue card just answered
+      const topic = step.part === 3 && isFullTest
+        ? questions.find((_, index) => steps[index]?.part === 2)?.text
+        : step.topic;
+
+      // Let the examiner react to the last answer before moving to a new frame
+      const previousStep = steps[questionIndex - 1];
+      const previousQuestion = questions[questionIndex - 1];
+      const previousAnswer = responses.find(r => r.questionId === questionIndex - 1)?.text;
+      let followUpsInFrame = 0;
+      for (let index = questionIndex - 1; index >= 0 && steps[index].part === step.part; index--) {
+        if (!questions[index]?.move || questions[index].move === 'next-frame') break;
+        followUpsInFrame++;
+      }
+      const move: ExaminerMove = previousStep?.part === step.part && previousQuestion && previousAnswer
+        ? decideNextMove({
+            part: step.part,
+            lastQuestion: previousQuestion.text,
+            lastAnswer: previousAnswer,
+            followUpsInFrame,
+            frameChanged: previousStep.topic !== step.topic
+          })
+        : 'next-frame';
+
+      const questionText = move === 'next-frame'
+        ? await openAIService.generateQuestion(step.part, partQuestionNumber, previousResponses, topic, previousQuestions, step.bankQuestion)
+        : await openAIService.generateFollowUpQuestion(move, step.part, previousQuestion.text, previousAnswer ?? '');
       
       // Generate audio for the question
       const audioBuffer = await openAIService.textToSpeech(questionText);
@@ -94,7 +258,8 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
       const newQuestion: Question = {
         id: questionIndex,
         text: questionText,
-        audioUrl
+        audioUrl,
+        move
       };
 
       setQuestions(prev => {
@@ -102,87 +267,100 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
         updated[questionIndex] = newQuestion;
         return updated;
       });
+
+      // The cue card is on screen: preparation time starts now
+      if (step.part === 2) {
+        startPreparation();
+      }
     } catch (error) {
       console.error('Error generating question:', error);
+      setAIError(toAIErrorState(error, questionIndex));
     } finally {
       setIsLoadingQuestion(false);
     }
-  }, [openAIService, part, responses]);
+  }, [openAIService, steps, isFullTest, questions, responses, startPreparation]);
 
+  // Part 2 recordings go through the long turn so the two-minute cut-off applies
   const handleRecordingToggle = useCallback(async () => {
     if (isRecording) {
-      stopRecording();
+      if (part === 2) {
+        longTurn.finish();
+      } else {
+        stopRecording();
+      }
+    } else if (part === 2) {
+      await longTurn.startSpeaking();
     } else {
-      clearAudio();
-      setTranscribedText('');
-      await startRecording();
+      await beginRecording();
     }
-  }, [isRecording, stopRecording, startRecording, clearAudio]);
+  }, [isRecording, part, longTurn, stopRecording, beginRecording]);
 
+  // Submits the latest recording, or the one kept from a failed submission
   const processResponse = useCallback(async () => {
-    if (!audioBlob) return;
+    const unsent = unsentRecordings[currentQuestionIndex];
+    const recording = audioBlob ?? unsent?.audioBlob;
+    if (!recording) return;
+    const responseNotes = audioBlob ? (part === 2 ? notes : undefined) : unsent?.notes;
 
     setIsProcessingResponse(true);
+    setAIError(null);
     try {
       // Transcribe audio
-      const transcription = await openAIService.speechToText(audioBlob);
+      const { text: transcription, ...timings } = await openAIService.speechToText(recording);
       setTranscribedText(transcription);
+      const fluency = analyseFluency(transcription, timings);
+      const lexis = analyseLexis(transcription);
 
-      // Evaluate response
-      const evaluation = await openAIService.evaluateResponse(transcription, part);
+      // Evaluate response, showing bands and feedback as they are written
+      const controller = startStream('evaluation');
+      let evaluation: Evaluation | null = null;
+      setEvaluationDraft('');
+      try {
+        evaluation = await openAIService.evaluateResponse(transcription, part, fluency, lexis, {
+          signal: controller.signal,
+          onText: setEvaluationDraft
+        });
+      } catch (error) {
+        // Cancelling keeps the transcript, just without a score
+        if (!controller.signal.aborted) throw error;
+      } finally {
+        setEvaluationDraft(null);
+      }
 
       // Save response
       const newResponse: Response = {
         questionId: currentQuestionIndex,
         text: transcription,
-        audioBlob,
-        evaluation
+        timings,
+        fluency,
+        lexis,
+        audioBlob: recording,
+        evaluation: evaluation ?? undefined,
+        evaluationUnavailable: !evaluation,
+        evaluationCancelled: controller.signal.aborted,
+        notes: responseNotes
       };
 
       setResponses(prev => [...prev, newResponse]);
+      setUnsentRecordings(prev => {
+        const updated = { ...prev };
+        delete updated[currentQuestionIndex];
+        return updated;
+      });
       setShowEvaluation(true);
+      // Each answer adds to today's spend, so the limit banner may need to appear
+      refreshBudget();
     } catch (error) {
       console.error('Error processing response:', error);
+      setUnsentRecordings(prev => ({ ...prev, [currentQuestionIndex]: { audioBlob: recording, notes: responseNotes } }));
+      setAIError(toAIErrorState(error, currentQuestionIndex));
     } finally {
       setIsProcessingResponse(false);
     }
-  }, [audioBlob, openAIService, part, currentQuestionIndex]);
-
-  const saveToHistory = useCallback(async (questionData: {
-    question: string;
-    userAnswer: string;
-    modelAnswer: string;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    evaluation?: any;
-  }) => {
-    if (!session?.user?.id) return;
+  }, [audioBlob, unsentRecordings, openAIService, part, currentQuestionIndex, notes, refreshBudget, startStream]);
 
+  const postHistory = useCallback(async (historyData: Record<string, unknown>) => {
     try {
-      const historyData = {
-        sessionId,
-        part,
-        questions: [{
-          question: questionData.question,
-          userAnswer: questionData.userAnswer,
-          modelAnswer: questionData.modelAnswer,
-          evaluation: questionData.evaluation ? {
-            bandScore: questionData.evaluation.score,
-            criteria: {
-              fluencyCoherence: questionData.evaluation.score,
-              lexicalResource: questionData.evaluation.score,
-              grammaticalRange: questionData.evaluation.score,
-              pronunciation: questionData.evaluation.score
-            },
-            feedback: questionData.evaluation.feedback,
-            strengths: questionData.evaluation.suggestions.slice(0, 2) || [],
-            improvements: questionData.evaluation.suggestions.slice(2) || []
-          } : undefined,
-          timestamp: new Date().toISOString()
-        }],
-        duration: timer,
-        completedAt: new Date().toISOString()
-      };
-
       const response = await fetch('/api/user-history', {
         method: 'POST',
         headers: {
@@ -197,72 +375,166 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
     } catch (error) {
       console.error('Error saving to history:', error);
     }
-  }, [session, sessionId, part, timer]);
+  }, []);
+
+  // Part 3 steps in a full test discuss the cue card, so they are filed under its topic
+  const topicForStep = useCallback((index: number) => (
+    steps[index]?.topic ?? (steps[index]?.part === 3 ? steps.find(step => step.part === 2)?.topic : undefined)
+  ), [steps]);
+
+  const saveToHistory = useCallback(async (questionData: {
+    topic?: string;
+    question: string;
+    userAnswer: string;
+    timings?: TranscriptTimings;
+    fluency?: FluencyMetrics;
+    lexis?: LexicalProfile;
+    modelAnswer: string;
+    notes?: string;
+    evaluation?: Evaluation;
+  }) => {
+    if (!session?.user?.id) return;
+
+    await postHistory({
+      sessionId,
+      sessionType: 'practice',
+      part,
+      questions: [toHistoryQuestion(questionData)],
+      duration: timer,
+      completedAt: new Date().toISOString()
+    });
+  }, [session, sessionId, part, timer, postHistory]);
+
+  // A full mock test is saved once, as a single record covering all three parts
+  const saveFullTest = useCallback(async () => {
+    if (!session?.user?.id || responses.length === 0) return;
+
+    await postHistory({
+      sessionId,
+      sessionType: 'full-test',
+      topic: steps.find(step => step.part === 2)?.topic,
+      questions: responses
+        .filter(r => questions[r.questionId])
+        .map(r => toHistoryQuestion({
+          part: steps[r.questionId].part,
+          topic: topicForStep(r.questionId),
+          question: questions[r.questionId].text,
+          userAnswer: r.text,
+          timings: r.timings,
+          fluency: r.fluency,
+          lexis: r.lexis,
+          modelAnswer: r.modelAnswer,
+          notes: r.notes,
+          evaluation: r.evaluation
+        })),
+      duration: timer,
+      completedAt: new Date().toISOString()
+    });
+  }, [session, sessionId, steps, questions, responses, timer, postHistory, topicForStep]);
+
+  const rememberModelAnswer = useCallback((questionId: number, answer: string) => {
+    setResponses(prev => prev.map(r => (r.questionId === questionId ? { ...r, modelAnswer: answer } : r)));
+  }, []);
 
   const generateModelAnswer = useCallback(async () => {
     const question = questions[currentQuestionIndex];
     const userResponse = responses.find(r => r.questionId === currentQuestionIndex);
     if (!question) return;
     
+    const controller = startStream('improved');
     setIsLoadingModelAnswer(true);
+    setModelAnswer('');
+    setShowModelAnswer(true);
     try {
       const modelAnswerText = await openAIService.generateModelAnswer(
         question.text, 
         part, 
-        userResponse?.text // Pass the user's response to improve it
+        userResponse?.text, // Pass the user's response to improve it
+        { signal: controller.signal, onText: setModelAnswer }
       );
       setModelAnswer(modelAnswerText);
-      setShowModelAnswer(true);
 
-      // Save to history when model answer is generated
-      if (userResponse) {
+      // Save to history when model answer is generated; full tests save once at the end
+      if (isFullTest) {
+        rememberModelAnswer(currentQuestionIndex, modelAnswerText);
+      } else if (userResponse) {
         await saveToHistory({
+          topic: topicForStep(currentQuestionIndex),
           question: question.text,
           userAnswer: userResponse.text,
+          timings: userResponse.timings,
+          fluency: userResponse.fluency,
+          lexis: userResponse.lexis,
           modelAnswer: modelAnswerText,
+          notes: userResponse.notes,
           evaluation: userResponse.evaluation
         });
       }
     } catch (error) {
-      console.error('Error generating model answer:', error);
+      // An unfinished answer is not kept
+      setShowModelAnswer(false);
+      setModelAnswer('');
+      if (!controller.signal.aborted) {
+        console.error('Error generating model answer:', error);
+        setAIError(toAIErrorState(error, currentQuestionIndex));
+      }
     } finally {
       setIsLoadingModelAnswer(false);
     }
-  }, [openAIService, questions, currentQuestionIndex, part, responses, saveToHistory]);
+  }, [openAIService, questions, currentQuestionIndex, part, responses, saveToHistory, isFullTest, rememberModelAnswer, topicForStep, startStream]);
 
   const generateGeneralModelAnswer = useCallback(async () => {
     const question = questions[currentQuestionIndex];
     const userResponse = responses.find(r => r.questionId === currentQuestionIndex);
     if (!question) return;
     
+    const controller = startStream('general');
     setIsLoadingGeneralModelAnswer(true);
+    setGeneralModelAnswer('');
+    setShowGeneralModelAnswer(true);
     try {
       const generalAnswerText = await openAIService.generateModelAnswer(
         question.text, 
         part, 
-        undefined // No user response - generate general answer
+        undefined, // No user response - generate general answer
+        { signal: controller.signal, onText: setGeneralModelAnswer }
       );
       setGeneralModelAnswer(generalAnswerText);
-      setShowGeneralModelAnswer(true);
 
-      // Save to history when general model answer is generated
-      if (userResponse) {
+      // Save to history when general model answer is generated; full tests save once at the end
+      if (isFullTest) {
+        rememberModelAnswer(currentQuestionIndex, generalAnswerText);
+      } else if (userResponse) {
         await saveToHistory({
+          topic: topicForStep(currentQuestionIndex),
           question: question.text,
           userAnswer: userResponse.text,
+          timings: userResponse.timings,
+          fluency: userResponse.fluency,
+          lexis: userResponse.lexis,
           modelAnswer: generalAnswerText,
+          notes: userResponse.notes,
           evaluation: userResponse.evaluation
         });
       }
     } catch (error) {
-      console.error('Error generating general model answer:', error);
+      setShowGeneralModelAnswer(false);
+      setGeneralModelAnswer('');
+      if (!controller.signal.aborted) {
+        console.error('Error generating general model answer:', error);
+        setAIError(toAIErrorState(error, currentQuestionIndex));
+      }
     } finally {
       setIsLoadingGeneralModelAnswer(false);
     }
-  }, [openAIService, questions, currentQuestionIndex, part, responses, saveToHistory]);
+  }, [openAIService, questions, currentQuestionIndex, part, responses, saveToHistory, isFullTest, rememberModelAnswer, topicForStep, startStream]);
 
   const nextQuestion = useCallback(() => {
     const nextIndex = currentQuestionIndex + 1;
+    if (steps[nextIndex] && steps[nextIndex].part !== steps[currentQuestionIndex].part) {
+      setPartStartedAt(timer);
+    }
+    cancelAllStreams();
     setCurrentQuestionIndex(nextIndex);
     setTranscribedText('');
     setShowEvaluation(false);
@@ -270,12 +542,21 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
     setShowModelAnswer(false);
     setGeneralModelAnswer('');
     setShowGeneralModelAnswer(false);
+    setNotes('');
+    resetLongTurn();
     clearAudio();
 
-    if (nextIndex < 5) { // Assuming 5 questions per part
+    if (nextIndex < steps.length) {
       generateQuestion(nextIndex);
     }
-  }, [currentQuestionIndex, generateQuestion, clearAudio]);
+  }, [currentQuestionIndex, generateQuestion, clearAudio, resetLongTurn, steps, timer, cancelAllStreams]);
+
+  const completeTest = useCallback(async () => {
+    if (isFullTest) {
+      await saveFullTest();
+    }
+    onExit();
+  }, [isFullTest, saveFullTest, onExit]);
 
   const playQuestionAudio = useCallback(() => {
     const currentQuestion = questions[currentQuestionIndex];
@@ -293,7 +574,21 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
 
   const currentQuestion = questions[currentQuestionIndex];
   const currentResponse = responses.find(r => r.questionId === currentQuestionIndex);
-  const isLastQuestion = currentQuestionIndex >= 4;
+  const currentEvaluation = currentResponse?.evaluation;
+  const partialEvaluation = useMemo(
+    () => (evaluationDraft === null ? null : parsePartialEvaluation(evaluationDraft)),
+    [evaluationDraft]
+  );
+  const unsentRecording = unsentRecordings[currentQuestionIndex];
+  const hasUnsentRecording = !!unsentRecording;
+  // A new recording replaces the kept one
+  const isResubmission = hasUnsentRecording && (!audioBlob || audioBlob === unsentRecording.audioBlob);
+  const currentAIError = aiError?.questionIndex === currentQuestionIndex ? aiError : null;
+  // The session timer re-renders every second, which keeps this countdown moving
+  const retryInSeconds = currentAIError?.retryAt ? Math.max(0, Math.ceil((currentAIError.retryAt - Date.now()) / 1000)) : 0;
+  const isLastQuestion = currentQuestionIndex >= steps.length - 1;
+  const partElapsed = timer - partStartedAt;
+  const isPartOverTime = partElapsed > PART_TIME_LIMITS[part];
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
@@ -303,17 +598,25 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
           <div className="flex justify-between items-center mb-8">
             <div>
               <h1 className="text-2xl font-bold text-gray-800">
-                IELTS Speaking Test - Part {part}
+                {isFullTest ? 'IELTS Speaking Mock Test' : 'IELTS Speaking Test'} - Part {part}
               </h1>
               <div className="flex items-center gap-4 mt-2">
                 <div className="flex items-center gap-2 text-gray-600">
                   <Clock size={16} />
                   <span>{formatTime(timer)}</span>
                 </div>
+                <div className={isPartOverTime ? 'text-red-600' : 'text-gray-600'}>
+                  Part {part}: {formatTime(partElapsed)} / {formatTime(PART_TIME_LIMITS[part])}
+                </div>
                 <div className="text-gray-600">
-                  Question {currentQuestionIndex + 1} of 5
+                  Question {currentQuestionIndex + 1} of {steps.length}
                 </div>
               </div>
+              {isPartOverTime && (
+                <p className="text-xs text-red-600 mt-1">
+                  Time for Part {part} is up. In the real exam the examiner would move on now.
+                </p>
+              )}
             </div>
             <button
               onClick={onExit}
@@ -323,10 +626,26 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
             </button>
           </div>
 
+          {/* Spend limit */}
+          {budget && budget.level !== 'ok' && (
+            <div className={`${budgetExceeded ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-800'} border rounded-lg p-4 mb-6 text-sm`}>
+              {budgetExceeded
+                ? 'Your spend limit has been reached. General model answers are paused, and the examiner now uses a cheaper model and standard-quality audio.'
+                : 'You are close to your spend limit. Once it is reached, general model answers pause and the examiner switches to cheaper models.'}
+            </div>
+          )}
+
           {/* Question Display */}
           <div className="bg-gray-50 rounded-lg p-6 mb-8">
             <div className="flex justify-between items-start mb-4">
-              <h3 className="text-lg font-semibold text-gray-800">Current Question</h3>
+              <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+                Current Question
+                {currentQuestion?.move && currentQuestion.move !== 'next-frame' && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-700">
+                    Follow-up
+                  </span>
+                )}
+              </h3>
               <button
                 onClick={playQuestionAudio}
                 disabled={!currentQuestion?.audioUrl}
@@ -343,16 +662,92 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
               </div>
             ) : (
               <p className="text-gray-700 leading-relaxed">
-                {currentQuestion?.text || 'Loading question...'}
+                {currentQuestion?.text || (currentAIError ? 'The question could not be loaded.' : 'Loading question...')}
               </p>
             )}
           </div>
 
+          {/* AI Error */}
+          {currentAIError && !isProcessingResponse && !isLoadingQuestion && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-sm text-red-700">
+              <p className="font-medium">
+                {currentAIError.retryAt ? 'AI temporarily unavailable' : 'Something went wrong'}
+              </p>
+              <p className="mt-1">
+                {currentAIError.retryAt
+                  ? retryInSeconds > 0 ? `Please try again in ${retryInSeconds} seconds.` : 'You can try again now.'
+                  : currentAIError.message}
+                {isResubmission && !currentResponse && ' Your recording has been kept, so you can resubmit it without recording again.'}
+              </p>
+              {!currentQuestion && (
+                <button
+                  onClick={() => generateQuestion(currentQuestionIndex)}
+                  disabled={retryInSeconds > 0}
+                  className="mt-3 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400 transition-colors"
+                >
+                  Try again
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Part 2 long turn: preparation countdown and note pad */}
+          {part === 2 && longTurn.phase !== 'idle' && (
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-6 mb-8">
+              <div className="flex justify-between items-center mb-3">
+                <h4 className="font-medium text-orange-800 flex items-center gap-2">
+                  <NotebookPen size={16} />
+                  {longTurn.phase === 'preparing' ? 'Preparation' : 'Your notes'}
+                </h4>
+                {longTurn.phase === 'preparing' && (
+                  <div className="flex items-center gap-3">
+                    <span className="text-lg font-bold text-orange-700">{formatTime(longTurn.prepRemaining)}</span>
+                    <button
+                      onClick={longTurn.startSpeaking}
+                      className="px-3 py-1 bg-orange-600 text-white text-sm rounded-md hover:bg-orange-700 transition-colors"
+                    >
+                      Start speaking now
+                    </button>
+                  </div>
+                )}
+                {longTurn.phase === 'speaking' && (
+                  <span className={`text-lg font-bold ${longTurn.isWarning ? 'text-red-600' : 'text-orange-700'}`}>
+                    {formatTime(longTurn.speakingElapsed)} / {formatTime(PART_2_TIMING.limit)}
+                  </span>
+                )}
+              </div>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                readOnly={longTurn.phase !== 'preparing'}
+                maxLength={2000}
+                rows={4}
+                placeholder="Jot down a few keywords for each prompt on the card..."
+                className="w-full px-3 py-2 border border-orange-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-400 read-only:bg-orange-100"
+              />
+              {longTurn.phase === 'preparing' && (
+                <p className="text-xs text-orange-600 mt-2">
+                  Recording starts automatically when preparation time runs out.
+                </p>
+              )}
+              {longTurn.isWarning && (
+                <p className="text-xs text-red-600 mt-2">
+                  About 15 seconds left. Start wrapping up your answer.
+                </p>
+              )}
+              {longTurn.phase === 'finished' && longTurn.speakingElapsed >= PART_2_TIMING.limit && (
+                <p className="text-xs text-orange-600 mt-2">
+                  Thank you. Your two minutes are up, so the recording was stopped.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Audio Controls */}
           <div className="flex justify-center items-center gap-8 mb-8">
             <button
               onClick={handleRecordingToggle}
-              disabled={isProcessingResponse}
+              disabled={isProcessingResponse || (part === 2 && longTurn.phase === 'idle')}
               className={`p-6 rounded-full transition-all ${
                 isRecording 
                   ? 'bg-red-500 text-white shadow-lg scale-110 animate-pulse' 
@@ -364,7 +759,9 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
             
             <div className="text-center">
               <p className="text-sm text-gray-600 mb-1">
-                {isRecording ? 'Recording your response...' : 'Click to record your answer'}
+                {isRecording
+                  ? 'Recording your response...'
+                  : longTurn.phase === 'preparing' ? 'Click to start speaking early' : 'Click to record your answer'}
               </p>
               <div className="text-xs text-gray-500">
                 {isRecording ? 'Click again to stop' : 'Speak clearly into your microphone'}
@@ -388,7 +785,7 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
           )}
 
           {/* Processing Status */}
-          {isProcessingResponse && (
+          {isProcessingResponse && evaluationDraft === null && (
             <div className="bg-blue-100 border border-blue-300 rounded-lg p-4 mb-6">
               <div className="flex items-center gap-2">
                 <div className="animate-spin w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full"></div>
@@ -408,8 +805,46 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
             </div>
           )}
 
+          {/* Evaluation as it streams in */}
+          {partialEvaluation && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 mb-6">
+              <div className="flex justify-between items-start mb-4">
+                <h4 className="font-medium text-yellow-800 flex items-center gap-2">
+                  <div className="animate-spin w-4 h-4 border-2 border-yellow-600 border-t-transparent rounded-full"></div>
+                  Evaluating your answer...
+                </h4>
+                <button
+                  onClick={() => cancelStream('evaluation')}
+                  className="px-3 py-2 border border-yellow-300 text-yellow-800 text-sm rounded-md hover:bg-yellow-100 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-3 mb-4">
+                {CRITERIA.map(({ key, label }) => (
+                  <div key={key} className="bg-white rounded-md border border-yellow-100 p-3">
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-sm font-medium text-yellow-800">{label}</span>
+                      <span className="text-sm font-bold text-yellow-700">
+                        {partialEvaluation.criteria[key]?.band ?? '…'}
+                      </span>
+                    </div>
+                    <p className="text-xs text-yellow-700">
+                      {partialEvaluation.criteria[key]?.justification}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {partialEvaluation.feedback && (
+                <p className="text-yellow-700 text-sm">{partialEvaluation.feedback}</p>
+              )}
+            </div>
+          )}
+
           {/* Evaluation */}
-          {showEvaluation && currentResponse?.evaluation && (
+          {showEvaluation && currentResponse && (
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 mb-6">
               <div className="flex justify-between items-start mb-4">
                 <h4 className="font-medium text-yellow-800 flex items-center gap-2">
@@ -436,7 +871,8 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
                   </button>
                   <button
                     onClick={generateGeneralModelAnswer}
-                    disabled={isLoadingGeneralModelAnswer}
+                    disabled={isLoadingGeneralModelAnswer || budgetExceeded}
+                    title={budgetExceeded ? 'Paused: spend limit reached' : undefined}
                     className="px-3 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 disabled:bg-gray-400 transition-colors flex items-center gap-2"
                   >
                     {isLoadingGeneralModelAnswer ? (
@@ -453,42 +889,154 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
                   </button>
                 </div>
               </div>
-              
-              <div className="grid md:grid-cols-2 gap-4">
-                <div>
+
+              {/* Measured locally from the timed transcript */}
+              {currentResponse.fluency && (
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-yellow-800 mb-4">
+                  <span>{currentResponse.fluency.wordsPerMinute} words per minute</span>
+                  {currentResponse.fluency.longPauses !== undefined && (
+                    <span>{currentResponse.fluency.longPauses} long pauses</span>
+                  )}
+                  <span>{currentResponse.fluency.fillerWords} filler words</span>
+                  <span>{currentResponse.fluency.selfCorrections} self-corrections</span>
+                  <span>{currentResponse.fluency.repetitions} repetitions</span>
+                </div>
+              )}
+
+              {/* Vocabulary profiled locally against the bundled CEFR word list */}
+              {currentResponse.lexis && currentResponse.lexis.tokenCount > 0 && (
+                <div className="bg-white rounded-md border border-yellow-100 p-3 mb-4 text-xs text-yellow-800">
+                  <div className="flex flex-wrap justify-between gap-2 mb-2">
+                    <span className="text-sm font-medium">Vocabulary</span>
+                    <span>
+                      {currentResponse.lexis.typeCount} different words of {currentResponse.lexis.tokenCount}
+                      {' '}(type-token ratio {currentResponse.lexis.typeTokenRatio}
+                      {currentResponse.lexis.mtld !== undefined && `, MTLD ${currentResponse.lexis.mtld}`})
+                    </span>
+                  </div>
+                  <div className="flex h-2 rounded-full overflow-hidden bg-gray-100 mb-1">
+                    {CEFR_LEVELS.map(level => (
+                      <div
+                        key={level}
+                        className={CEFR_BAR_COLOURS[level]}
+                        style={{ width: `${currentResponse.lexis?.cefrShare[level] ?? 0}%` }}
+                        title={`${level}: ${currentResponse.lexis?.cefrShare[level]}%`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-x-3 mb-2">
+                    {CEFR_LEVELS.map(level => (
+                      <span key={level}>{level} {currentResponse.lexis?.cefrShare[level]}%</span>
+                    ))}
+                    <span className="text-yellow-600">not listed {currentResponse.lexis.cefrShare.unlisted}%</span>
+                  </div>
+                  {[
+                    { label: 'B2 and above', items: currentResponse.lexis.advancedWords },
+                    { label: 'Overused', items: currentResponse.lexis.overusedWords.map(({ word, count }) => `${word} ×${count}`) },
+                    { label: 'Collocations', items: currentResponse.lexis.collocations },
+                    { label: 'Idioms', items: currentResponse.lexis.idioms }
+                  ].filter(({ items }) => items.length > 0).map(({ label, items }) => (
+                    <div key={label} className="flex flex-wrap items-center gap-1 mt-1">
+                      <span className="font-medium mr-1">{label}:</span>
+                      {items.map(item => (
+                        <span key={item} className="px-2 py-0.5 bg-yellow-100 rounded-full">{item}</span>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {currentEvaluation ? (
+                <>
+                <div className="mb-4">
                   <div className="text-2xl font-bold text-yellow-700 mb-2">
-                    Band Score: {currentResponse.evaluation.score}
+                    Band Score: {currentEvaluation.score}
                   </div>
                   <p className="text-yellow-700 text-sm">
-                    {currentResponse.evaluation.feedback}
+                    {currentEvaluation.feedback}
                   </p>
                 </div>
-                
-                <div>
-                  <h5 className="font-medium text-yellow-800 mb-2">Suggestions for Improvement:</h5>
-                  <ul className="text-yellow-700 text-sm space-y-1">
-                    {currentResponse.evaluation.suggestions.map((suggestion, index) => (
-                      <li key={index} className="flex items-start gap-2">
-                        <span className="text-yellow-500 mt-1">•</span>
-                        <span>{suggestion}</span>
-                      </li>
-                    ))}
-                  </ul>
+
+                <div className="grid md:grid-cols-2 gap-3 mb-4">
+                  {CRITERIA.map(({ key, label }) => (
+                    <div key={key} className="bg-white rounded-md border border-yellow-100 p-3">
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="text-sm font-medium text-yellow-800">{label}</span>
+                        <span className="text-sm font-bold text-yellow-700">
+                          {currentEvaluation.criteria[key].band}
+                        </span>
+                      </div>
+                      <p className="text-xs text-yellow-700">
+                        {currentEvaluation.criteria[key].justification}
+                      </p>
+                    </div>
+                  ))}
                 </div>
-              </div>
+              
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <h5 className="font-medium text-yellow-800 mb-2">Strengths:</h5>
+                    <ul className="text-yellow-700 text-sm space-y-1">
+                      {currentEvaluation.strengths.map((strength, index) => (
+                        <li key={index} className="flex items-start gap-2">
+                          <span className="text-yellow-500 mt-1">•</span>
+                          <span>{strength}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+
+                  <div>
+                    <h5 className="font-medium text-yellow-800 mb-2">Suggestions for Improvement:</h5>
+                    <ul className="text-yellow-700 text-sm space-y-1">
+                      {currentEvaluation.improvements.map((improvement, index) => (
+                        <li key={index} className="flex items-start gap-2">
+                          <span className="text-yellow-500 mt-1">•</span>
+                          <span>{improvement}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+                </>
+              ) : currentResponse.evaluationCancelled ? (
+                <div className="bg-white rounded-md border border-yellow-100 p-4">
+                  <p className="font-medium text-yellow-800 mb-1">Evaluation cancelled</p>
+                  <p className="text-yellow-700 text-sm">
+                    No band is shown for this answer. Your transcript has been kept, and you can still compare it with the model answers.
+                  </p>
+                </div>
+              ) : (
+                <div className="bg-white rounded-md border border-yellow-100 p-4">
+                  <p className="font-medium text-yellow-800 mb-1">Evaluation unavailable</p>
+                  <p className="text-yellow-700 text-sm">
+                    The examiner could not produce a reliable score for this answer, so no band is shown. Your transcript has been kept, and you can still compare it with the model answers.
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
           {/* Improved Model Answer */}
-          {showModelAnswer && modelAnswer && (
+          {showModelAnswer && (modelAnswer || isLoadingModelAnswer) && (
             <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-6 mb-6">
-              <h4 className="font-medium text-indigo-800 mb-4 flex items-center gap-2">
-                <BookOpen size={16} />
-                Improved Response (Band 7-7.5)
-              </h4>
+              <div className="flex justify-between items-start mb-4">
+                <h4 className="font-medium text-indigo-800 flex items-center gap-2">
+                  <BookOpen size={16} />
+                  Improved Response (Band 7-7.5)
+                </h4>
+                {isLoadingModelAnswer && (
+                  <button
+                    onClick={() => cancelStream('improved')}
+                    className="px-3 py-1 border border-indigo-300 text-indigo-800 text-sm rounded-md hover:bg-indigo-100 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
               <div className="bg-white rounded-lg p-4 border border-indigo-100 mb-4">
                 <p className="text-indigo-900 text-sm leading-relaxed whitespace-pre-wrap">
-                  {modelAnswer}
+                  {modelAnswer || 'Writing...'}
                 </p>
               </div>
               
@@ -499,15 +1047,25 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
           )}
 
           {/* General Model Answer */}
-          {showGeneralModelAnswer && generalModelAnswer && (
+          {showGeneralModelAnswer && (generalModelAnswer || isLoadingGeneralModelAnswer) && (
             <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-6">
-              <h4 className="font-medium text-green-800 mb-4 flex items-center gap-2">
-                <BookOpen size={16} />
-                General Model Answer (Band 6.5-7)
-              </h4>
+              <div className="flex justify-between items-start mb-4">
+                <h4 className="font-medium text-green-800 flex items-center gap-2">
+                  <BookOpen size={16} />
+                  General Model Answer (Band 6.5-7)
+                </h4>
+                {isLoadingGeneralModelAnswer && (
+                  <button
+                    onClick={() => cancelStream('general')}
+                    className="px-3 py-1 border border-green-300 text-green-800 text-sm rounded-md hover:bg-green-100 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
               <div className="bg-white rounded-lg p-4 border border-green-100 mb-4">
                 <p className="text-green-900 text-sm leading-relaxed whitespace-pre-wrap">
-                  {generalModelAnswer}
+                  {generalModelAnswer || 'Writing...'}
                 </p>
               </div>
               
@@ -539,13 +1097,13 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
             </button>
 
             <div className="flex gap-4">
-              {audioBlob && !currentResponse && (
+              {(audioBlob || hasUnsentRecording) && !currentResponse && (
                 <button
                   onClick={processResponse}
-                  disabled={isProcessingResponse}
+                  disabled={isProcessingResponse || isRecording || retryInSeconds > 0}
                   className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 transition-colors"
                 >
-                  Submit Response
+                  {isResubmission ? 'Resubmit Response' : 'Submit Response'}
                 </button>
               )}
 
@@ -558,7 +1116,7 @@ export default function TestSession({ part, apiKey, onExit }: TestSessionProps)
                 </button>
               ) : (
                 <button
-                  onClick={onExit}
+                  onClick={completeTest}
                   className="px-6 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"
                 >
                   Complete Test
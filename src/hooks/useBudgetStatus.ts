@@ -0,0 +1,32 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { BudgetStatus, SpendLimits } from '@/lib/usage';
+
+interface UseBudgetStatusReturn {
+  // Null until loaded, or when the user has no key to spend from yet
+  status: BudgetStatus | null;
+  personalLimits: SpendLimits;
+  refresh: () => Promise<void>;
+}
+
+export const useBudgetStatus = (): UseBudgetStatusReturn => {
+  const [status, setStatus] = useState<BudgetStatus | null>(null);
+  const [personalLimits, setPersonalLimits] = useState<SpendLimits>({});
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/budget');
+      if (!response.ok) return;
+      const data = await response.json();
+      setStatus(data.status);
+      setPersonalLimits(data.personalLimits);
+    } catch (error) {
+      console.error('Error fetching spend limits:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { status, personalLimits, refresh };
+};
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PART_2_TIMING } from '@/lib/test-plan';
+
+export type LongTurnPhase = 'idle' | 'preparing' | 'speaking' | 'finished';
+
+interface UseLongTurnOptions {
+  startRecording: () => Promise<void>;
+  stopRecording: () => void;
+}
+
+interface UseLongTurnReturn {
+  phase: LongTurnPhase;
+  prepRemaining: number;
+  speakingElapsed: number;
+  isWarning: boolean;
+  startPreparation: () => void;
+  startSpeaking: () => Promise<void>;
+  finish: () => void;
+  reset: () => void;
+}
+
+// Drives the Part 2 long turn: one minute of preparation, then a recording
+// that starts by itself and is cut off at two minutes, as in the real exam
+export const useLongTurn = ({ startRecording, stopRecording }: UseLongTurnOptions): UseLongTurnReturn => {
+  const [phase, setPhase] = useState<LongTurnPhase>('idle');
+  const [prepRemaining, setPrepRemaining] = useState<number>(PART_2_TIMING.preparation);
+  const [speakingElapsed, setSpeakingElapsed] = useState(0);
+
+  const startPreparation = useCallback(() => {
+    setPrepRemaining(PART_2_TIMING.preparation);
+    setSpeakingElapsed(0);
+    setPhase('preparing');
+  }, []);
+
+  const startSpeaking = useCallback(async () => {
+    setSpeakingElapsed(0);
+    setPhase('speaking');
+    await startRecording();
+  }, [startRecording]);
+
+  const finish = useCallback(() => {
+    stopRecording();
+    setPhase('finished');
+  }, [stopRecording]);
+
+  const reset = useCallback(() => {
+    setPrepRemaining(PART_2_TIMING.preparation);
+    setSpeakingElapsed(0);
+    setPhase('idle');
+  }, []);
+
+  // Tick once a second while preparing or speaking
+  useEffect(() => {
+    if (phase !== 'preparing' && phase !== 'speaking') return;
+
+    const interval = setInterval(() => {
+      if (phase === 'preparing') {
+        setPrepRemaining(prev => Math.max(prev - 1, 0));
+      } else {
+        setSpeakingElapsed(prev => prev + 1);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  // Preparation time is over: the candidate has to start talking
+  useEffect(() => {
+    if (phase === 'preparing' && prepRemaining === 0) {
+      startSpeaking();
+    }
+  }, [phase, prepRemaining, startSpeaking]);
+
+  // The examiner stops the candidate at two minutes
+  useEffect(() => {
+    if (phase === 'speaking' && speakingElapsed >= PART_2_TIMING.limit) {
+      finish();
+    }
+  }, [phase, speakingElapsed, finish]);
+
+  return {
+    phase,
+    prepRemaining,
+    speakingElapsed,
+    isWarning: phase === 'speaking' && speakingElapsed >= PART_2_TIMING.warning,
+    startPreparation,
+    startSpeaking,
+    finish,
+    reset
+  };
+};
@@ -0,0 +1,10 @@
+import { connectToDatabase } from '@/lib/mongodb'
+import { User } from '@/lib/models/User'
+
+// Read from the database on every call so a demoted admin loses access
+// immediately instead of when their JWT expires
+export async function isAdmin(userId: string): Promise<boolean> {
+  await connectToDatabase()
+  const user = await User.findById(userId).select('role isActive')
+  return user?.role === 'admin' && user.isActive === true
+}
@@ -0,0 +1,182 @@
+import type { CriterionKey, DrillEvaluation, Evaluation } from '@/lib/evaluation';
+import type { FollowUpMove } from '@/lib/examiner';
+import type { DrillMetrics } from '@/lib/drills';
+import type { Transcription } from '@/lib/providers';
+import type { FluencyMetrics } from '@/lib/fluency';
+import type { LexicalProfile } from '@/lib/lexical';
+import type { BankQuestion } from '@/lib/test-plan';
+import { AIUnavailableError } from '@/lib/resilience';
+import { readAIStream, type AIStreamErrorBody } from '@/lib/ai-stream';
+import { CACHE_TTL, createDefaultCache, hashKey, type CacheBackend } from '@/lib/cache';
+
+export interface StreamOptions {
+  // Aborting cancels the generation on the server too
+  signal?: AbortSignal;
+  // Called with all the text received so far each time more arrives
+  onText?: (text: string) => void;
+}
+
+// Browser-side counterpart of OpenAIService. Every call goes through the
+// /api/ai routes, which resolve the organisation or vault key on the server.
+// Examiner audio and model answers are also kept in a local cache (IndexedDB
+// where available), so replaying them costs neither a request nor a charge.
+export class AIClient {
+  // Practice session the calls belong to, so the usage page can show what each session cost
+  constructor(private sessionId?: string, private cache: CacheBackend = createDefaultCache()) {}
+
+  async generateQuestion(part: number, questionNumber: number, previousResponses?: string[], topic?: string, previousQuestions?: string[], bankQuestion?: BankQuestion): Promise<string> {
+    const data = await this.postJson<{ question: string }>('/api/ai/question', {
+      part,
+      questionNumber,
+      previousResponses,
+      topic,
+      previousQuestions,
+      bankQuestion
+    });
+    return data.question;
+  }
+
+  async generateFollowUpQuestion(move: FollowUpMove, part: number, question: string, answer: string): Promise<string> {
+    const data = await this.postJson<{ question: string }>('/api/ai/follow-up', { move, part, question, answer });
+    return data.question;
+  }
+
+  // Resolves to null when the examiner could not produce a trustworthy evaluation.
+  // onText receives the evaluator's unfinished JSON, see parsePartialEvaluation
+  async evaluateResponse(response: string, part: number, fluency?: FluencyMetrics, lexis?: LexicalProfile, options?: StreamOptions): Promise<Evaluation | null> {
+    return this.postStream<Evaluation | null>('/api/ai/evaluate', { response, part, fluency, lexis }, options);
+  }
+
+  async generateDrillQuestion(criterion: CriterionKey, questionNumber: number, previousQuestions?: string[]): Promise<string> {
+    const data = await this.postJson<{ question: string }>('/api/ai/drill/question', {
+      criterion,
+      questionNumber,
+      previousQuestions
+    });
+    return data.question;
+  }
+
+  // Resolves to null when the examiner could not produce a trustworthy band
+  async evaluateDrillResponse(criterion: CriterionKey, question: string, response: string, metrics?: DrillMetrics): Promise<DrillEvaluation | null> {
+    const data = await this.postJson<{ evaluation: DrillEvaluation | null }>('/api/ai/drill/evaluate', {
+      criterion,
+      question,
+      response,
+      metrics
+    });
+    return data.evaluation;
+  }
+
+  async generateModelAnswer(question: string, part: number, userResponse?: string, options?: StreamOptions): Promise<string> {
+    const cacheKey = `model_answer_${part}_${hashKey(`${question}\n${userResponse ?? ''}`)}`;
+    const cached = await this.cache.get<string>(cacheKey);
+    if (cached) {
+      options?.onText?.(cached);
+      return cached;
+    }
+
+    const answer = await this.postStream<string>('/api/ai/model-answer', { question, part, userResponse }, options);
+    await this.cache.set(cacheKey, answer, CACHE_TTL.modelAnswer);
+    return answer;
+  }
+
+  async textToSpeech(text: string): Promise<ArrayBuffer> {
+    const cacheKey = `tts_${hashKey(text)}`;
+    const cached = await this.cache.get<ArrayBuffer>(cacheKey);
+    // The caller may hand the buffer to a Blob; keep the cached copy intact
+    if (cached) return cached.slice(0);
+
+    const response = await fetch('/api/ai/tts', {
+      method: 'POST',
+      headers: this.headers({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ text })
+    });
+
+    if (!response.ok) {
+      throw await this.toError(response, 'convert text to speech');
+    }
+
+    const audio = await response.arrayBuffer();
+    await this.cache.set(cacheKey, audio.slice(0), CACHE_TTL.tts);
+    return audio;
+  }
+
+  // The transcript with word and segment timings in seconds
+  async speechToText(audioBlob: Blob): Promise<Transcription> {
+    const formData = new FormData();
+    formData.append('audio', audioBlob, 'audio.webm');
+
+    const response = await fetch('/api/ai/stt', {
+      method: 'POST',
+      headers: this.headers(),
+      body: formData
+    });
+
+    if (!response.ok) {
+      throw await this.toError(response, 'convert speech to text');
+    }
+
+    return await response.json();
+  }
+
+  private async postJson<T>(url: string, body: unknown): Promise<T> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: this.headers({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw await this.toError(response, 'reach the AI service');
+    }
+
+    return await response.json();
+  }
+
+  private async postStream<T>(url: string, body: object, { signal, onText }: StreamOptions = {}): Promise<T> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: this.headers({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ ...body, stream: true }),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw await this.toError(response, 'reach the AI service');
+    }
+
+    let text = '';
+    for await (const event of readAIStream<T>(response.body)) {
+      if (event.type === 'delta') {
+        text += event.text;
+        onText?.(text);
+      } else if (event.type === 'done') {
+        return event.result;
+      } else {
+        throw this.errorFromBody(event) ?? new Error('Failed to reach the AI service. Please try again.');
+      }
+    }
+    throw new Error('The AI service stopped responding. Please try again.');
+  }
+
+  private headers(headers: Record<string, string> = {}): Record<string, string> {
+    return this.sessionId ? { ...headers, 'X-Practice-Session': this.sessionId } : headers;
+  }
+
+  // The server has already retried; an AIUnavailableError means the learner should wait and resubmit
+  private async toError(response: Response, operation: string): Promise<Error> {
+    try {
+      const error = this.errorFromBody(await response.json());
+      if (error) return error;
+    } catch {
+      // Non-JSON error body
+    }
+    return new Error(`Failed to ${operation}. Please try again.`);
+  }
+
+  private errorFromBody(data?: Partial<AIStreamErrorBody>): Error | undefined {
+    if (data?.aiUnavailable && data.retryAfterSeconds !== undefined) return new AIUnavailableError(data.retryAfterSeconds);
+    if (data?.error) return new Error(data.error);
+    return undefined;
+  }
+}
@@ -0,0 +1,167 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getActiveApiKey } from '@/lib/api-key-vault'
+import { OpenAIService } from '@/lib/openai'
+import { MongoCache } from '@/lib/cache/mongo-cache'
+import type { CacheLimits } from '@/lib/cache'
+import { createUsageRecorder } from '@/lib/usage-events'
+import { getBudgetStatus } from '@/lib/budget'
+import { BudgetExceededError } from '@/lib/usage'
+import { AIUnavailableError } from '@/lib/resilience'
+import { AI_STREAM_CONTENT_TYPE, encodeAIStreamEvent, type AIStreamEvent } from '@/lib/ai-stream'
+import { DEFAULT_COST_PROFILE, type CostProfileName } from '@/lib/cost-profiles'
+import { connectToDatabase } from '@/lib/mongodb'
+import { User } from '@/lib/models/User'
+
+export class MissingApiKeyError extends Error {
+  constructor() {
+    super('No API key available. Add your OpenAI API key in settings.')
+    this.name = 'MissingApiKeyError'
+  }
+}
+
+export function hasServerApiKey(): boolean {
+  return !!process.env.OPENAI_API_KEY || process.env.AI_PROVIDER === 'mock'
+}
+
+interface ResolvedApiKey {
+  apiKey: string
+  keySource: 'organisation' | 'personal'
+}
+
+async function resolveKey(userId: string): Promise<ResolvedApiKey> {
+  if (process.env.OPENAI_API_KEY) return { apiKey: process.env.OPENAI_API_KEY, keySource: 'organisation' }
+  if (process.env.AI_PROVIDER === 'mock') return { apiKey: 'mock', keySource: 'organisation' }
+
+  const apiKey = await getActiveApiKey(userId)
+  if (apiKey) return { apiKey, keySource: 'personal' }
+
+  throw new MissingApiKeyError()
+}
+
+// Prefer the organisation key, then the learner's own key from the vault
+export async function resolveApiKey(userId: string): Promise<string> {
+  return (await resolveKey(userId)).apiKey
+}
+
+// Which key the learner's calls are billed to, or null when there is none yet
+export async function getActiveKeySource(userId: string): Promise<ResolvedApiKey['keySource'] | null> {
+  try {
+    return (await resolveKey(userId)).keySource
+  } catch (error) {
+    if (error instanceof MissingApiKeyError) return null
+    throw error
+  }
+}
+
+// AIClient tags calls with the practice session they belong to so usage can be shown per session
+export function getPracticeSessionId(request: Request): string | undefined {
+  const sessionId = request.headers.get('x-practice-session')
+  return sessionId && sessionId.length <= 100 ? sessionId : undefined
+}
+
+// One cache for every user, so a model answer or audio clip is only paid for once
+function getCacheLimits(): Partial<CacheLimits> {
+  const limits: Partial<CacheLimits> = {}
+  if (process.env.AI_CACHE_MAX_ENTRIES) limits.maxEntries = parseInt(process.env.AI_CACHE_MAX_ENTRIES)
+  if (process.env.AI_CACHE_MAX_MB) limits.maxBytes = parseInt(process.env.AI_CACHE_MAX_MB) * 1024 * 1024
+  return limits
+}
+
+export const sharedCache = new MongoCache(getCacheLimits())
+
+async function getCostProfile(userId: string): Promise<CostProfileName> {
+  await connectToDatabase()
+  const user = await User.findById(userId).select('costProfile')
+  return user?.costProfile ?? DEFAULT_COST_PROFILE
+}
+
+export async function getAIService(userId: string, sessionId?: string): Promise<OpenAIService> {
+  const { apiKey, keySource } = await resolveKey(userId)
+  const [{ level }, profile] = await Promise.all([
+    getBudgetStatus(userId, keySource),
+    getCostProfile(userId)
+  ])
+  const usage = createUsageRecorder({
+    userId,
+    sessionId,
+    keySource,
+    provider: process.env.AI_PROVIDER || 'openai'
+  })
+  return new OpenAIService(apiKey, { cache: sharedCache, usage, profile, budget: level })
+}
+
+// Shared catch-block for the /api/ai routes
+export function aiErrorResponse(error: unknown, context: string) {
+  console.error(`${context} error:`, error)
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Validation failed', details: error.errors },
+      { status: 400 }
+    )
+  }
+
+  if (error instanceof MissingApiKeyError) {
+    return NextResponse.json({ error: error.message }, { status: 400 })
+  }
+
+  if (error instanceof AIUnavailableError) {
+    return NextResponse.json(
+      { error: error.message, aiUnavailable: true, retryAfterSeconds: error.retryAfterSeconds },
+      { status: 503, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+    )
+  }
+
+  if (error instanceof BudgetExceededError) {
+    return NextResponse.json({ error: error.message, budgetExceeded: true }, { status: 429 })
+  }
+
+  // OpenAIService already turns provider failures into user-facing messages
+  if (error instanceof Error) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+}
+
+// Streams text deltas as NDJSON events, ending with the generator's return value.
+// The first piece is awaited before responding, so failures up front (spend limit,
+// open circuit) keep their HTTP status; later ones become an error event.
+export async function aiStreamResponse<T>(stream: AsyncGenerator<string, T>, context: string) {
+  let pending: IteratorResult<string, T> | undefined
+  try {
+    pending = await stream.next()
+  } catch (error) {
+    return aiErrorResponse(error, context)
+  }
+
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const send = (event: AIStreamEvent<T>) => controller.enqueue(encoder.encode(encodeAIStreamEvent(event)))
+      try {
+        const result = pending ?? await stream.next()
+        pending = undefined
+        if (result.done) {
+          send({ type: 'done', result: result.value })
+          controller.close()
+        } else {
+          send({ type: 'delta', text: result.value })
+        }
+      } catch (error) {
+        const response = aiErrorResponse(error, context)
+        send({ type: 'error', ...(await response.json()) })
+        controller.close()
+      }
+    },
+    // The learner cancelled: stop generating
+    async cancel() {
+      await stream.return(undefined as T)
+    }
+  })
+
+  return new Response(body, {
+    headers: { 'Content-Type': AI_STREAM_CONTENT_TYPE, 'Cache-Control': 'no-cache' }
+  })
+}
@@ -0,0 +1,44 @@
+// Wire format of the streaming /api/ai routes: one JSON event per line.
+// Text arrives as deltas, then a single event ends the stream with the
+// final result or with the same error body the JSON routes return.
+
+export const AI_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+export interface AIStreamErrorBody {
+  error: string;
+  aiUnavailable?: boolean;
+  retryAfterSeconds?: number;
+  budgetExceeded?: boolean;
+}
+
+export type AIStreamEvent<T> =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: T }
+  | ({ type: 'error' } & AIStreamErrorBody);
+
+export function encodeAIStreamEvent<T>(event: AIStreamEvent<T>): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+export async function* readAIStream<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<AIStreamEvent<T>> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line);
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
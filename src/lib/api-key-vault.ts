@@ -0,0 +1,64 @@
+import { connectToDatabase } from '@/lib/mongodb'
+import { ApiKey, IApiKey } from '@/lib/models/ApiKey'
+import { decrypt, encrypt } from '@/lib/encryption'
+import { OpenAIService } from '@/lib/openai'
+import { hashKey } from '@/lib/cache'
+import { removeCircuitBreakers } from '@/lib/resilience'
+
+// Public view of a stored key; never includes the secret itself
+export function serializeApiKey(apiKey: IApiKey) {
+  return {
+    id: apiKey._id,
+    provider: apiKey.provider,
+    label: apiKey.label,
+    lastFour: apiKey.lastFour,
+    status: apiKey.status,
+    lastValidatedAt: apiKey.lastValidatedAt,
+    lastValidationError: apiKey.lastValidationError,
+    rotatedAt: apiKey.rotatedAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt
+  }
+}
+
+export function sealApiKey(plaintext: string) {
+  return {
+    ...encrypt(plaintext),
+    lastFour: plaintext.slice(-4)
+  }
+}
+
+export function unsealApiKey(apiKey: IApiKey): string | null {
+  if (!apiKey.ciphertext || !apiKey.iv || !apiKey.authTag) return null
+  return decrypt({ ciphertext: apiKey.ciphertext, iv: apiKey.iv, authTag: apiKey.authTag })
+}
+
+// Checks the key against the provider and records the outcome on the document
+export async function validateAndStamp(apiKey: IApiKey, plaintext: string) {
+  const validation = await new OpenAIService(plaintext).validateApiKey()
+
+  if (validation.isValid) {
+    apiKey.lastValidatedAt = new Date()
+    apiKey.lastValidationError = undefined
+  } else {
+    apiKey.lastValidationError = validation.error
+  }
+
+  return validation
+}
+
+// Drops the in-memory state kept for a secret once it is rotated out or revoked
+export function releaseApiKey(plaintext: string) {
+  removeCircuitBreakers(hashKey(plaintext))
+}
+
+export async function getActiveApiKey(userId: string): Promise<string | null> {
+  await connectToDatabase()
+  const apiKey = await ApiKey.findOne({ userId, status: 'active' })
+  return apiKey ? unsealApiKey(apiKey) : null
+}
+
+export async function hasActiveApiKey(userId: string): Promise<boolean> {
+  await connectToDatabase()
+  return !!(await ApiKey.exists({ userId, status: 'active' }))
+}
@@ -0,0 +1,96 @@
+import mongoose from 'mongoose'
+import { connectToDatabase } from '@/lib/mongodb'
+import { User } from '@/lib/models/User'
+import { UsageEvent } from '@/lib/models/UsageEvent'
+import { getBudgetLevel, mostSevereBudgetLevel, type BudgetStatus, type SpendLimits } from '@/lib/usage'
+
+type KeySource = BudgetStatus['keySource']
+
+// Deployment-wide caps for learners on the organisation key, e.g. a teacher's
+// key shared by a class; an admin can override them per learner
+export function getDefaultOrganisationLimits(): SpendLimits {
+  const limits: SpendLimits = {}
+  if (process.env.ORGANISATION_DAILY_LIMIT_USD) limits.dailyUsd = parseFloat(process.env.ORGANISATION_DAILY_LIMIT_USD)
+  if (process.env.ORGANISATION_MONTHLY_LIMIT_USD) limits.monthlyUsd = parseFloat(process.env.ORGANISATION_MONTHLY_LIMIT_USD)
+  return limits
+}
+
+// Caps on everyone's spend on the organisation key together, so a class sharing
+// one key cannot spend the per-learner cap once per learner
+export function getOrganisationTotalLimits(): SpendLimits {
+  const limits: SpendLimits = {}
+  if (process.env.ORGANISATION_TOTAL_DAILY_LIMIT_USD) limits.dailyUsd = parseFloat(process.env.ORGANISATION_TOTAL_DAILY_LIMIT_USD)
+  if (process.env.ORGANISATION_TOTAL_MONTHLY_LIMIT_USD) limits.monthlyUsd = parseFloat(process.env.ORGANISATION_TOTAL_MONTHLY_LIMIT_USD)
+  return limits
+}
+
+async function getSpendLimits(userId: string, keySource: KeySource): Promise<SpendLimits> {
+  const user = await User.findById(userId).select('spendLimits organisationSpendLimits').lean<{
+    spendLimits?: SpendLimits
+    organisationSpendLimits?: SpendLimits
+  }>()
+
+  if (keySource === 'personal') return user?.spendLimits ?? {}
+  return { ...getDefaultOrganisationLimits(), ...user?.organisationSpendLimits }
+}
+
+// Days and months follow UTC, like the per-day totals on the usage page.
+// Without a user the spend of everyone on the key is added up
+async function getSpend(userId: string | null, keySource: KeySource, now: Date) {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+
+  const [totals] = await UsageEvent.aggregate([
+    {
+      $match: {
+        ...(userId ? { userId: new mongoose.Types.ObjectId(userId) } : {}),
+        keySource,
+        kind: 'call',
+        createdAt: { $gte: monthStart }
+      }
+    },
+    {
+      $group: {
+        _id: null,
+        monthlyUsd: { $sum: '$costUsd' },
+        dailyUsd: { $sum: { $cond: [{ $gte: ['$createdAt', dayStart] }, '$costUsd', 0] } }
+      }
+    }
+  ])
+
+  return { dailyUsd: totals?.dailyUsd ?? 0, monthlyUsd: totals?.monthlyUsd ?? 0 }
+}
+
+export async function getBudgetStatus(userId: string, keySource: KeySource, now = new Date()): Promise<BudgetStatus> {
+  await connectToDatabase()
+
+  const [limits, spent] = await Promise.all([
+    getSpendLimits(userId, keySource),
+    getSpend(userId, keySource, now)
+  ])
+  const level = getBudgetLevel(spent, limits)
+
+  if (keySource === 'personal') return { keySource, limits, spent, level }
+
+  const organisationLimits = getOrganisationTotalLimits()
+  const organisationSpent = organisationLimits.dailyUsd || organisationLimits.monthlyUsd
+    ? await getSpend(null, keySource, now)
+    : { dailyUsd: 0, monthlyUsd: 0 }
+  const organisationLevel = getBudgetLevel(organisationSpent, organisationLimits)
+
+  return {
+    keySource,
+    limits,
+    spent,
+    level: mostSevereBudgetLevel(level, organisationLevel),
+    organisation: { limits: organisationLimits, spent: organisationSpent, level: organisationLevel }
+  }
+}
+
+// Drops removed (null) caps so they fall back to no limit, or to the deployment default
+export function toSpendLimits({ dailyUsd, monthlyUsd }: { dailyUsd: number | null, monthlyUsd: number | null }): SpendLimits {
+  const limits: SpendLimits = {}
+  if (dailyUsd !== null) limits.dailyUsd = dailyUsd
+  if (monthlyUsd !== null) limits.monthlyUsd = monthlyUsd
+  return limits
+}
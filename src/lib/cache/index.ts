@@ -0,0 +1,22 @@
+import { IndexedDBCache } from './indexeddb-cache';
+import { MemoryCache } from './memory-cache';
+import type { CacheBackend } from './types';
+
+export type * from './types';
+export { MemoryCache } from './memory-cache';
+export { IndexedDBCache } from './indexeddb-cache';
+export { hashKey } from './utils';
+// MongoCache is server-only: import it from '@/lib/cache/mongo-cache'
+
+// Cache lifetimes for each kind of AI result
+export const CACHE_TTL = {
+  question: 30 * 60 * 1000,
+  evaluation: 60 * 60 * 1000,
+  modelAnswer: 7 * 24 * 60 * 60 * 1000,
+  tts: 30 * 24 * 60 * 60 * 1000
+};
+
+// IndexedDB in the browser, memory anywhere else (server code should pass a MongoCache)
+export function createDefaultCache(): CacheBackend {
+  return IndexedDBCache.isSupported() ? new IndexedDBCache() : new MemoryCache();
+}
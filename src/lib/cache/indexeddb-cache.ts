@@ -0,0 +1,170 @@
+import type { CacheBackend, CacheLimits, CacheStats } from './types';
+import { estimateSize, HitCounter } from './utils';
+
+const DB_NAME = 'ielts-ai-cache';
+const DB_VERSION = 1;
+// Values and bookkeeping live in separate stores so eviction can scan sizes
+// and access times without loading every cached audio clip
+const VALUES = 'values';
+const META = 'meta';
+
+interface MetaRecord {
+  key: string;
+  size: number;
+  expiresAt: number;
+  lastAccessedAt: number;
+}
+
+const DEFAULT_LIMITS: CacheLimits = {
+  maxEntries: 1000,
+  maxBytes: 100 * 1024 * 1024
+};
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function done(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Browser cache that survives reloads and is shared by every tab on the origin
+export class IndexedDBCache implements CacheBackend {
+  readonly name = 'indexeddb';
+  private db: Promise<IDBDatabase> | null = null;
+  private counter = new HitCounter();
+  private limits: CacheLimits;
+
+  constructor(limits: Partial<CacheLimits> = {}) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction([VALUES, META], 'readwrite');
+      const meta = await promisify<MetaRecord | undefined>(transaction.objectStore(META).get(key));
+
+      if (!meta || Date.now() > meta.expiresAt) {
+        if (meta) {
+          transaction.objectStore(META).delete(key);
+          transaction.objectStore(VALUES).delete(key);
+        }
+        await done(transaction);
+        return this.counter.record<T>(null);
+      }
+
+      const value = await promisify<T | undefined>(transaction.objectStore(VALUES).get(key));
+      transaction.objectStore(META).put({ ...meta, lastAccessedAt: Date.now() });
+      await done(transaction);
+      return this.counter.record(value ?? null);
+    } catch (error) {
+      console.warn('IndexedDB cache read failed:', error);
+      return this.counter.record<T>(null);
+    }
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const size = estimateSize(value);
+    if (size > this.limits.maxBytes) return;
+
+    try {
+      const db = await this.open();
+      const transaction = db.transaction([VALUES, META], 'readwrite');
+      const now = Date.now();
+      transaction.objectStore(VALUES).put(value, key);
+      transaction.objectStore(META).put({ key, size, expiresAt: now + ttlMs, lastAccessedAt: now });
+      await done(transaction);
+      await this.evict(db);
+    } catch (error) {
+      console.warn('IndexedDB cache write failed:', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction([VALUES, META], 'readwrite');
+      transaction.objectStore(VALUES).delete(key);
+      transaction.objectStore(META).delete(key);
+      await done(transaction);
+    } catch (error) {
+      console.warn('IndexedDB cache delete failed:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction([VALUES, META], 'readwrite');
+      transaction.objectStore(VALUES).clear();
+      transaction.objectStore(META).clear();
+      await done(transaction);
+    } catch (error) {
+      console.warn('IndexedDB cache clear failed:', error);
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    try {
+      const db = await this.open();
+      const records = await promisify<MetaRecord[]>(db.transaction(META).objectStore(META).getAll());
+      return this.counter.toStats(this.name, records.length, records.reduce((sum, record) => sum + record.size, 0));
+    } catch {
+      return this.counter.toStats(this.name, 0, 0);
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(VALUES);
+          db.createObjectStore(META, { keyPath: 'key' }).createIndex('lastAccessedAt', 'lastAccessedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry if opening failed (e.g. private browsing)
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  // Drops expired entries, then the least recently used ones until both limits hold
+  private async evict(db: IDBDatabase) {
+    const transaction = db.transaction([VALUES, META], 'readwrite');
+    const values = transaction.objectStore(VALUES);
+    const meta = transaction.objectStore(META);
+    const records = await promisify<MetaRecord[]>(meta.index('lastAccessedAt').getAll());
+
+    const now = Date.now();
+    let entries = records.length;
+    let bytes = records.reduce((sum, record) => sum + record.size, 0);
+
+    for (const record of records) {
+      const expired = now > record.expiresAt;
+      if (!expired && entries <= this.limits.maxEntries && bytes <= this.limits.maxBytes) continue;
+
+      values.delete(record.key);
+      meta.delete(record.key);
+      entries--;
+      bytes -= record.size;
+    }
+
+    await done(transaction);
+  }
+}
@@ -0,0 +1,84 @@
+import type { CacheBackend, CacheLimits, CacheStats } from './types';
+import { estimateSize, HitCounter } from './utils';
+
+interface MemoryEntry {
+  value: unknown;
+  size: number;
+  expiresAt: number;
+}
+
+const DEFAULT_LIMITS: CacheLimits = {
+  maxEntries: 500,
+  maxBytes: 50 * 1024 * 1024
+};
+
+// Per-process (or per-tab) cache. A Map keeps insertion order, so moving an
+// entry to the end on every read makes the first key the least recently used.
+export class MemoryCache implements CacheBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, MemoryEntry>();
+  private bytes = 0;
+  private counter = new HitCounter();
+  private limits: CacheLimits;
+
+  constructor(limits: Partial<CacheLimits> = {}) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return this.counter.record<T>(null);
+
+    if (Date.now() > entry.expiresAt) {
+      this.remove(key);
+      return this.counter.record<T>(null);
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return this.counter.record(entry.value as T);
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const size = estimateSize(value);
+    // An entry bigger than the whole cache would only evict everything else
+    if (size > this.limits.maxBytes) return;
+
+    this.remove(key);
+    this.entries.set(key, { value, size, expiresAt: Date.now() + ttlMs });
+    this.bytes += size;
+    this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  async stats(): Promise<CacheStats> {
+    return this.counter.toStats(this.name, this.entries.size, this.bytes);
+  }
+
+  private remove(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.bytes -= entry.size;
+  }
+
+  private evict() {
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (now > entry.expiresAt) this.remove(key);
+    });
+
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.limits.maxEntries && this.bytes <= this.limits.maxBytes) break;
+      this.remove(key);
+    }
+  }
+}
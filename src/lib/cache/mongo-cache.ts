@@ -0,0 +1,154 @@
+import { connectToDatabase } from '@/lib/mongodb';
+import { CacheEntry, type ICacheEntry } from '@/lib/models/CacheEntry';
+import type { CacheBackend, CacheLimits, CacheStats } from './types';
+import { estimateSize, HitCounter } from './utils';
+
+// Server-only: shared by every user and survives restarts. Not exported from
+// './index' so client bundles never pull in mongoose.
+
+const DEFAULT_LIMITS: CacheLimits = {
+  maxEntries: 5000,
+  maxBytes: 200 * 1024 * 1024
+};
+
+// Writes between full size scans; in between, this process keeps a running byte total
+const RESYNC_AFTER_WRITES = 200;
+
+export class MongoCache implements CacheBackend {
+  readonly name = 'mongodb';
+  private counter = new HitCounter();
+  private limits: CacheLimits;
+  // Overestimates when a write replaces an entry, so eviction errs early until the next scan
+  private runningBytes: number | null = null;
+  private writesSinceScan = 0;
+  private evicting = false;
+
+  constructor(limits: Partial<CacheLimits> = {}) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      await connectToDatabase();
+      const entry: ICacheEntry | null = await CacheEntry.findOneAndUpdate(
+        { key, expiresAt: { $gt: new Date() } },
+        { $set: { lastAccessedAt: new Date() } },
+        { new: true }
+      );
+      if (!entry) return this.counter.record<T>(null);
+
+      if (entry.binary) {
+        const { buffer, byteOffset, byteLength } = entry.binary;
+        return this.counter.record(buffer.slice(byteOffset, byteOffset + byteLength) as T);
+      }
+      return this.counter.record((entry.value ?? null) as T | null);
+    } catch (error) {
+      console.warn('MongoDB cache read failed:', error);
+      return this.counter.record<T>(null);
+    }
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const size = estimateSize(value);
+    if (size > this.limits.maxBytes) return;
+
+    try {
+      await connectToDatabase();
+      const isBinary = value instanceof ArrayBuffer;
+      await CacheEntry.updateOne(
+        { key },
+        {
+          $set: {
+            size,
+            expiresAt: new Date(Date.now() + ttlMs),
+            lastAccessedAt: new Date(),
+            ...(isBinary ? { binary: Buffer.from(value) } : { value })
+          },
+          $unset: isBinary ? { value: 1 } : { binary: 1 }
+        },
+        { upsert: true }
+      );
+      if (this.runningBytes !== null) this.runningBytes += size;
+      this.writesSinceScan++;
+      this.scheduleEviction();
+    } catch (error) {
+      console.warn('MongoDB cache write failed:', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await connectToDatabase();
+      await CacheEntry.deleteOne({ key });
+    } catch (error) {
+      console.warn('MongoDB cache delete failed:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await connectToDatabase();
+      await CacheEntry.deleteMany({});
+    } catch (error) {
+      console.warn('MongoDB cache clear failed:', error);
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    try {
+      await connectToDatabase();
+      const { entries, bytes } = await this.totals();
+      return this.counter.toStats(this.name, entries, bytes);
+    } catch {
+      return this.counter.toStats(this.name, 0, 0);
+    }
+  }
+
+  private async totals(): Promise<{ entries: number, bytes: number }> {
+    const [totals] = await CacheEntry.aggregate([
+      { $group: { _id: null, entries: { $sum: 1 }, bytes: { $sum: '$size' } } }
+    ]);
+    return { entries: totals?.entries ?? 0, bytes: totals?.bytes ?? 0 };
+  }
+
+  // Full scan only now and then; the entry count comes from collection metadata
+  private async currentTotals(): Promise<{ entries: number, bytes: number }> {
+    if (this.runningBytes === null || this.writesSinceScan >= RESYNC_AFTER_WRITES) {
+      const totals = await this.totals();
+      this.runningBytes = totals.bytes;
+      this.writesSinceScan = 0;
+      return totals;
+    }
+    return { entries: await CacheEntry.estimatedDocumentCount(), bytes: this.runningBytes };
+  }
+
+  // Runs after the write has returned, one eviction at a time, off the request's path
+  private scheduleEviction() {
+    if (this.evicting) return;
+    this.evicting = true;
+    this.evict()
+      .catch(error => console.warn('MongoDB cache eviction failed:', error))
+      .finally(() => { this.evicting = false; });
+  }
+
+  // Removes the least recently used entries until both limits hold
+  private async evict() {
+    let { entries, bytes } = await this.currentTotals();
+    if (entries <= this.limits.maxEntries && bytes <= this.limits.maxBytes) return;
+
+    const oldest = CacheEntry.find().sort({ lastAccessedAt: 1 }).select('size').lean<Array<{ _id: unknown, size: number }>>().cursor();
+    const evicted: unknown[] = [];
+    for await (const entry of oldest) {
+      if (entries <= this.limits.maxEntries && bytes <= this.limits.maxBytes) break;
+      evicted.push(entry._id);
+      entries--;
+      bytes -= entry.size;
+    }
+    await oldest.close();
+
+    if (evicted.length > 0) {
+      await CacheEntry.deleteMany({ _id: { $in: evicted } });
+    }
+    this.runningBytes = bytes;
+  }
+}
@@ -0,0 +1,26 @@
+// Storage-agnostic cache used by the AI services. Backends must never throw
+// from get or set: a cache that is unavailable behaves like a cache miss.
+
+export interface CacheLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface CacheStats {
+  backend: string;
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1, for this process or tab since it started
+}
+
+export interface CacheBackend {
+  readonly name: string;
+  get<T>(key: string): Promise<T | null>;
+  // ttlMs is how long the entry stays valid; least recently used entries go first when limits are hit
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): Promise<CacheStats>;
+}
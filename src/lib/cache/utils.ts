@@ -0,0 +1,49 @@
+import type { CacheStats } from './types';
+
+// 53-bit string hash (cyrb53). Keys are shared between users and restarts, so
+// the 32-bit hash the services used to build keys would collide too often.
+export function hashKey(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// Approximate stored size, used for the byte limit
+export function estimateSize(value: unknown): number {
+  if (value instanceof ArrayBuffer) return value.byteLength;
+  if (typeof value === 'string') return value.length * 2;
+  return (JSON.stringify(value) ?? '').length * 2;
+}
+
+export class HitCounter {
+  private hits = 0;
+  private misses = 0;
+
+  record<T>(value: T | null): T | null {
+    if (value === null) {
+      this.misses++;
+    } else {
+      this.hits++;
+    }
+    return value;
+  }
+
+  toStats(backend: string, entries: number, bytes: number): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      backend,
+      entries,
+      bytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import type { UsageOperation } from '@/lib/usage';
+
+// Named trade-offs between cost and quality. A profile decides, per operation,
+// which model runs, how many tokens it may write and how much of the learner's
+// text is sent, plus the examiner's audio tier. Users pick one in settings.
+
+export const COST_PROFILE_NAMES = ['economy', 'balanced', 'exam-grade'] as const;
+
+export type CostProfileName = typeof COST_PROFILE_NAMES[number];
+
+export type ChatOperation = Exclude<UsageOperation, 'tts' | 'stt'>;
+
+export interface ChatSettings {
+  model: string;
+  maxTokens: number;
+  // Longest learner text (answer or question) sent with the prompt; unlimited when absent
+  maxInputChars?: number;
+}
+
+export interface CostProfile {
+  name: CostProfileName;
+  label: string;
+  description: string;
+  chat: Record<ChatOperation, ChatSettings>;
+  // Part 2 model answers cover a two-minute long turn
+  longTurnModelAnswerTokens: number;
+  ttsModel: 'tts-1' | 'tts-1-hd';
+  maxSpeechChars?: number;
+  // Reuse questions and evaluations generated for identical input, from any user
+  reuseResults: boolean;
+}
+
+// What sessions used before profiles existed
+export const DEFAULT_COST_PROFILE: CostProfileName = 'exam-grade';
+
+export const COST_PROFILES: Record<CostProfileName, CostProfile> = {
+  economy: {
+    name: 'economy',
+    label: 'Economy',
+    description: 'Smallest models and shortest replies, standard audio, and questions and scores reused for identical answers.',
+    chat: {
+      question: { model: 'gpt-4o-mini', maxTokens: 80 },
+      'follow-up': { model: 'gpt-4o-mini', maxTokens: 40, maxInputChars: 600 },
+      evaluation: { model: 'gpt-4o-mini', maxTokens: 400, maxInputChars: 500 },
+      'drill-question': { model: 'gpt-4o-mini', maxTokens: 120 },
+      'drill-evaluation': { model: 'gpt-4o-mini', maxTokens: 250, maxInputChars: 500 },
+      'model-answer': { model: 'gpt-4o-mini', maxTokens: 150, maxInputChars: 300 }
+    },
+    longTurnModelAnswerTokens: 300,
+    ttsModel: 'tts-1',
+    maxSpeechChars: 1000,
+    reuseResults: true
+  },
+  balanced: {
+    name: 'balanced',
+    label: 'Balanced',
+    description: 'Small models for the examiner and model answers, the full model for band scores, and standard audio.',
+    chat: {
+      question: { model: 'gpt-4o-mini', maxTokens: 150 },
+      'follow-up': { model: 'gpt-4o-mini', maxTokens: 60, maxInputChars: 1500 },
+      evaluation: { model: 'gpt-4', maxTokens: 700, maxInputChars: 2000 },
+      'drill-question': { model: 'gpt-4o-mini', maxTokens: 120 },
+      'drill-evaluation': { model: 'gpt-4', maxTokens: 400, maxInputChars: 2000 },
+      'model-answer': { model: 'gpt-4o-mini', maxTokens: 250 }
+    },
+    longTurnModelAnswerTokens: 400,
+    ttsModel: 'tts-1',
+    reuseResults: false
+  },
+  'exam-grade': {
+    name: 'exam-grade',
+    label: 'Exam-grade',
+    description: 'The full model for every step, complete answers and HD examiner audio.',
+    chat: {
+      question: { model: 'gpt-4', maxTokens: 150 },
+      'follow-up': { model: 'gpt-4', maxTokens: 60 },
+      evaluation: { model: 'gpt-4', maxTokens: 700 },
+      'drill-question': { model: 'gpt-4', maxTokens: 120 },
+      'drill-evaluation': { model: 'gpt-4', maxTokens: 400 },
+      'model-answer': { model: 'gpt-4', maxTokens: 250 }
+    },
+    longTurnModelAnswerTokens: 400,
+    ttsModel: 'tts-1-hd',
+    reuseResults: false
+  }
+};
@@ -0,0 +1,48 @@
+import { UserHistory } from '@/lib/models/UserHistory'
+import { CRITERIA, type CriterionKey } from '@/lib/evaluation'
+
+// Per-criterion averages from the learner's recent full evaluations, used to
+// pick which criterion a drill should target. Drill answers are banded on one
+// criterion only, so they are left out to keep the comparison even.
+
+const CRITERION_KEYS = CRITERIA.map(({ key }) => key)
+
+// Enough sessions to smooth out one bad day without going back months
+const HISTORY_LOOKBACK = 20
+
+export interface CriterionSummary {
+  averages: Record<CriterionKey, number> | null
+  weakest: CriterionKey | null
+  sampleSize: number // evaluated answers the averages are based on
+}
+
+export async function getCriterionSummary(userId: string): Promise<CriterionSummary> {
+  const histories = await UserHistory.find({ userId, sessionType: { $ne: 'drill' } })
+    .sort({ createdAt: -1 })
+    .limit(HISTORY_LOOKBACK)
+    .select('questions.evaluation.criteria')
+
+  const totals: Record<CriterionKey, number> = { fluencyCoherence: 0, lexicalResource: 0, grammaticalRange: 0, pronunciation: 0 }
+  let sampleSize = 0
+
+  for (const history of histories) {
+    for (const question of history.questions) {
+      const criteria = question.evaluation?.criteria
+      if (!criteria || CRITERION_KEYS.some(key => typeof criteria[key] !== 'number')) continue
+
+      CRITERION_KEYS.forEach(key => { totals[key] += criteria[key] })
+      sampleSize++
+    }
+  }
+
+  if (sampleSize === 0) {
+    return { averages: null, weakest: null, sampleSize }
+  }
+
+  const averages = Object.fromEntries(
+    CRITERION_KEYS.map(key => [key, Math.round((totals[key] / sampleSize) * 10) / 10])
+  ) as Record<CriterionKey, number>
+  const weakest = CRITERION_KEYS.reduce((lowest, key) => (averages[key] < averages[lowest] ? key : lowest))
+
+  return { averages, weakest, sampleSize }
+}
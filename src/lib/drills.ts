@@ -0,0 +1,103 @@
+import type { CriterionKey } from '@/lib/evaluation';
+
+// Drill mode: short exercises aimed at one IELTS criterion, with questions and
+// feedback that ignore the other three.
+
+export interface DrillDefinition {
+  criterion: CriterionKey;
+  title: string;
+  instructions: string;
+  timeLimitSeconds: number;
+  questionCount: number;
+  // What the examiner should ask for, and what alone it should judge
+  questionBrief: string;
+  evaluationFocus: string;
+}
+
+export interface DrillMetrics {
+  wordCount: number;
+  fillerWords: number;
+  wordsPerMinute: number;
+  durationSeconds: number;
+}
+
+export const DRILLS: Record<CriterionKey, DrillDefinition> = {
+  fluencyCoherence: {
+    criterion: 'fluencyCoherence',
+    title: 'Fluency Drill',
+    instructions: 'Keep talking for the full 45 seconds without long pauses or filler words, and link your ideas with clear connectors.',
+    timeLimitSeconds: 45,
+    questionCount: 4,
+    questionBrief: 'Ask an open question on an everyday topic that the candidate can talk about non-stop for 45 seconds, asking them to explain and give reasons.',
+    evaluationFocus: 'Fluency and Coherence only: speech rate, hesitation, filler words, self-correction, logical sequencing and the range of linking devices.'
+  },
+  lexicalResource: {
+    criterion: 'lexicalResource',
+    title: 'Vocabulary Drill',
+    instructions: 'Paraphrase the statement in your own words, then add your view. Avoid repeating the words used in the question.',
+    timeLimitSeconds: 60,
+    questionCount: 4,
+    questionBrief: 'Give one plain statement on a common IELTS topic and ask the candidate to paraphrase it without reusing its key words, then say whether they agree.',
+    evaluationFocus: 'Lexical Resource only: successful paraphrase, range and precision of vocabulary, less common words, collocations and idiomatic language, and word-choice errors.'
+  },
+  grammaticalRange: {
+    criterion: 'grammaticalRange',
+    title: 'Grammar Drill',
+    instructions: 'Answer using a variety of structures, such as conditionals, relative clauses and different tenses.',
+    timeLimitSeconds: 60,
+    questionCount: 4,
+    questionBrief: 'Ask a question that naturally calls for a specific complex structure (a hypothetical, a past-present comparison, or a future prediction), and name the structure in a short hint.',
+    evaluationFocus: 'Grammatical Range and Accuracy only: variety of complex structures, accuracy of tenses and agreement, and the proportion of error-free sentences.'
+  },
+  pronunciation: {
+    criterion: 'pronunciation',
+    title: 'Pronunciation Drill',
+    instructions: 'Read the prompt aloud first, then answer it. Focus on word stress, clear sounds and natural intonation.',
+    timeLimitSeconds: 60,
+    questionCount: 4,
+    questionBrief: 'Write a short sentence containing commonly mispronounced words and multi-syllable stress patterns for the candidate to read aloud, followed by a short related question.',
+    evaluationFocus: 'Pronunciation only, judged from the transcript: words that appear mis-transcribed or garbled suggest unclear sounds or stress; note which words to practise.'
+  }
+};
+
+// Hesitation noises and stock phrases that fill time without adding meaning.
+// Deliberately not the fluency analyser's pattern: drill metrics stay comparable with earlier drills
+const FILLER_PATTERN = /\b(um+|uh+|er+m?|ah+|hmm+|you know|i mean|sort of|kind of|basically|actually)\b/gi;
+
+export function countFillerWords(text: string): number {
+  return text.match(FILLER_PATTERN)?.length ?? 0;
+}
+
+export function measureDrillResponse(text: string, durationSeconds: number): DrillMetrics {
+  const wordCount = text.trim().split(/\s+/).filter(Boolean).length;
+  return {
+    wordCount,
+    fillerWords: countFillerWords(text),
+    wordsPerMinute: durationSeconds > 0 ? Math.round((wordCount / durationSeconds) * 60) : 0,
+    durationSeconds
+  };
+}
+
+export function buildDrillQuestionPrompt(drill: DrillDefinition, questionNumber: number, previousQuestions: string[] = []): string {
+  const asked = previousQuestions.length > 0
+    ? `\n\nAlready used in this drill (choose a different topic):\n${previousQuestions.map(q => `- ${q}`).join('\n')}`
+    : '';
+  return `Create prompt ${questionNumber + 1} of ${drill.questionCount} for an IELTS speaking criterion drill in the style of Part 1 or Part 3. ${drill.questionBrief}${asked}\n\nReturn only the prompt the candidate will see.`;
+}
+
+export function buildDrillEvaluationPrompt(drill: DrillDefinition, metrics?: DrillMetrics): string {
+  const measured = metrics
+    ? `\n\nMeasured from the recording: ${metrics.wordCount} words in ${metrics.durationSeconds} seconds (${metrics.wordsPerMinute} words per minute) with ${metrics.fillerWords} filler words.`
+    : '';
+  return `You are an IELTS speaking examiner running a criterion drill. Judge ${drill.evaluationFocus} Ignore the other criteria entirely, and keep all feedback about this criterion.${measured}
+
+Give a whole or half band (1-9) using the public IELTS band descriptors for this criterion, justify it with evidence from the response, and list the most useful next steps.
+
+Respond in JSON format:
+{
+  "band": number,
+  "justification": "string",
+  "feedback": "string",
+  "improvements": ["step1", "step2"]
+}`;
+}
@@ -0,0 +1,41 @@
+import crypto from 'crypto'
+
+const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12 // Recommended nonce size for GCM
+
+export interface EncryptedValue {
+  ciphertext: string
+  iv: string
+  authTag: string
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.API_KEY_ENCRYPTION_SECRET
+  if (!secret) {
+    throw new Error('Please define the API_KEY_ENCRYPTION_SECRET environment variable inside .env.local')
+  }
+  // Normalise any secret length to a 256-bit key
+  return crypto.createHash('sha256').update(secret).digest()
+}
+
+export function encrypt(plaintext: string): EncryptedValue {
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv(ALGORITHM, getEncryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+
+  return {
+    ciphertext: ciphertext.toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64')
+  }
+}
+
+export function decrypt({ ciphertext, iv, authTag }: EncryptedValue): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'))
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf8')
+}
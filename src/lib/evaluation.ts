@@ -0,0 +1,88 @@
+import type { z } from 'zod';
+import type { drillEvaluationSchema, evaluationSchema } from '@/lib/schemas';
+
+// Shared shape of an IELTS speaking evaluation, used by the AI services,
+// the /api/ai routes and the session UI.
+
+export type CriterionKey = 'fluencyCoherence' | 'lexicalResource' | 'grammaticalRange' | 'pronunciation';
+
+export type Evaluation = z.infer<typeof evaluationSchema>;
+
+export type CriterionScore = Evaluation['criteria'][CriterionKey];
+
+// A drill judges one criterion only
+export type DrillEvaluation = z.infer<typeof drillEvaluationSchema>;
+
+export const CRITERIA: Array<{ key: CriterionKey; label: string }> = [
+  { key: 'fluencyCoherence', label: 'Fluency & Coherence' },
+  { key: 'lexicalResource', label: 'Lexical Resource' },
+  { key: 'grammaticalRange', label: 'Grammatical Range & Accuracy' },
+  { key: 'pronunciation', label: 'Pronunciation' }
+];
+
+// Raised when the evaluator's output can't be trusted. Callers must show an
+// explicit "unavailable" state rather than substituting a made-up score.
+export class EvaluationUnavailableError extends Error {
+  constructor(public reason = 'The examiner could not produce a reliable evaluation for this answer.') {
+    super(reason);
+    this.name = 'EvaluationUnavailableError';
+  }
+}
+
+// What can already be read from an evaluation the examiner is still writing
+export interface PartialEvaluation {
+  criteria: Partial<Record<CriterionKey, { band?: number; justification?: string }>>;
+  feedback?: string;
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Reads the string value of `key`, which may still be open at the end of the text
+function readPartialString(text: string, key: string): string | undefined {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(text);
+  if (!match) return undefined;
+
+  let value = '';
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const escaped = text[i + 1];
+    if (escaped === undefined) break;
+    if (escaped === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += JSON_ESCAPES[escaped] ?? escaped;
+      i++;
+    }
+  }
+  return value;
+}
+
+// Pulls bands, justifications and feedback out of the evaluator's unfinished JSON
+export function parsePartialEvaluation(json: string): PartialEvaluation {
+  const starts = CRITERIA
+    .map(({ key }) => ({ key, index: json.search(new RegExp(`"${key}"\\s*:\\s*\\{`)) }))
+    .filter(({ index }) => index !== -1)
+    .sort((a, b) => a.index - b.index);
+
+  const criteria: PartialEvaluation['criteria'] = {};
+  starts.forEach(({ key, index }, position) => {
+    const section = json.slice(index, starts[position + 1]?.index);
+    // Only a number followed by a delimiter is complete: "6" may still become "6.5"
+    const band = section.match(/"band"\s*:\s*(\d+(?:\.\d+)?)\s*[,}]/);
+    criteria[key] = {
+      band: band ? Number(band[1]) : undefined,
+      justification: readPartialString(section, 'justification')
+    };
+  });
+
+  return { criteria, feedback: readPartialString(json, 'feedback') };
+}
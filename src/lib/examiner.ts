@@ -0,0 +1,62 @@
+// Examiner dialogue engine: after each answer the examiner either digs into
+// what the candidate said, asks them to say more, or moves on to the next frame.
+export type ExaminerMove = 'follow-up' | 'elaborate' | 'next-frame';
+export type FollowUpMove = Exclude<ExaminerMove, 'next-frame'>;
+
+export interface ExaminerTurn {
+  part: number;
+  lastQuestion: string;
+  lastAnswer: string;
+  // Follow-up or elaboration questions already asked since the last new frame
+  followUpsInFrame: number;
+  // The next planned question belongs to a different topic frame
+  frameChanged: boolean;
+}
+
+// Answers shorter than this sound clipped for the part and get an elaboration request
+const MIN_ANSWER_WORDS: Record<number, number> = {
+  1: 15,
+  3: 35
+};
+
+// Examiners rarely stay on one frame for long
+const MAX_FOLLOW_UPS_PER_FRAME: Record<number, number> = {
+  1: 1,
+  3: 2
+};
+
+const REASONING_MARKERS = /\b(because|since|so that|the reason|that's why|which is why|due to|as a result|for example|for instance)\b/i;
+
+const FALLBACK_FOLLOW_UPS: Record<FollowUpMove, string[]> = {
+  'follow-up': ['Why is that?', 'Why do you think so?', 'Can you give me an example?'],
+  elaborate: ['Could you tell me a bit more about that?', 'Can you explain what you mean?', 'Could you say a little more about why?']
+};
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+export function decideNextMove(turn: ExaminerTurn): ExaminerMove {
+  // The Part 2 long turn is a monologue, and a new frame always starts fresh
+  if (turn.part === 2 || turn.frameChanged || !turn.lastAnswer.trim()) return 'next-frame';
+  if (turn.followUpsInFrame >= (MAX_FOLLOW_UPS_PER_FRAME[turn.part] ?? 0)) return 'next-frame';
+
+  if (countWords(turn.lastAnswer) < (MIN_ANSWER_WORDS[turn.part] ?? 0)) return 'elaborate';
+  if (!REASONING_MARKERS.test(turn.lastAnswer)) return 'follow-up';
+
+  // A developed, reasoned answer: Part 3 still probes once, Part 1 moves along
+  return turn.part === 3 && turn.followUpsInFrame === 0 ? 'follow-up' : 'next-frame';
+}
+
+export function buildFollowUpPrompt(move: FollowUpMove, part: number, question: string, answer: string): string {
+  const instruction = move === 'elaborate'
+    ? 'The answer was too short. Ask the candidate, in one short natural sentence, to expand on something specific they mentioned.'
+    : 'Ask one short natural follow-up question that picks up on something specific the candidate said, such as asking why, asking for an example, or asking how they feel about it.';
+
+  return `You are examining IELTS Speaking Part ${part}.\n\nYou asked: "${question}"\nThe candidate answered: "${answer}"\n\n${instruction} Do not comment on the answer or give feedback. Return only the question.`;
+}
+
+export function getFallbackFollowUp(move: FollowUpMove): string {
+  const options = FALLBACK_FOLLOW_UPS[move];
+  return options[Math.floor(Math.random() * options.length)];
+}
@@ -0,0 +1,98 @@
+import type { TranscriptTimings } from '@/lib/providers';
+
+// Fluency measured locally from a timed transcript, so the evaluator can
+// judge Fluency & Coherence from how the answer was actually delivered
+// rather than from the text alone.
+
+export interface FluencyMetrics {
+  wordCount: number;
+  // From the first word to the last, or the whole recording without word timings
+  speakingSeconds: number;
+  wordsPerMinute: number;
+  // Silences between words of at least LONG_PAUSE_SECONDS; absent without word timings
+  longPauses?: number;
+  longestPauseSeconds?: number;
+  fillerWords: number;
+  fillersPer100Words: number;
+  selfCorrections: number;
+  repetitions: number;
+}
+
+export const LONG_PAUSE_SECONDS = 1;
+
+// Hesitation noises and stock phrases that fill time without adding meaning.
+// "like" only counts when set off by commas, as the transcriber writes it when used as a filler.
+const FILLER_PATTERN = /\b(um+|uh+|er+m?|ah+|hmm+|you know|sort of|kind of|basically|actually)\b|,\s*like\b(?=\s*,)/gi;
+
+// Phrases that take back what was just said, and words cut off part-way ("wh-", "th-")
+const SELF_CORRECTION_PATTERN = /\b(i mean|sorry|or rather|no wait|let me rephrase)\b|\b\w+-(?=\s|$)/gi;
+
+export function countFillerWords(text: string): number {
+  return text.match(FILLER_PATTERN)?.length ?? 0;
+}
+
+export function countSelfCorrections(text: string): number {
+  return text.match(SELF_CORRECTION_PATTERN)?.length ?? 0;
+}
+
+const normalise = (word: string) => word.toLowerCase().replace(/[^\w']/g, '');
+
+// A word or two-word phrase said twice in a row ("I I think", "it was it was")
+export function countRepetitions(words: string[]): number {
+  const tokens = words.map(normalise).filter(Boolean);
+  let repetitions = 0;
+  for (let i = 1; i < tokens.length; i++) {
+    if (tokens[i] === tokens[i - 1]) {
+      repetitions++;
+    } else if (i >= 3 && tokens[i] === tokens[i - 2] && tokens[i - 1] === tokens[i - 3]) {
+      repetitions++;
+    }
+  }
+  return repetitions;
+}
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+export function analyseFluency(text: string, timings?: TranscriptTimings): FluencyMetrics {
+  const timedWords = timings?.words ?? [];
+  const words = timedWords.length > 0 ? timedWords.map(w => w.word) : text.trim().split(/\s+/).filter(Boolean);
+  const wordCount = words.length;
+  const fillerWords = countFillerWords(text);
+
+  const speakingSeconds = timedWords.length > 0
+    ? timedWords[timedWords.length - 1].end - timedWords[0].start
+    : timings?.durationSeconds ?? 0;
+
+  const metrics: FluencyMetrics = {
+    wordCount,
+    speakingSeconds: round(speakingSeconds),
+    wordsPerMinute: speakingSeconds > 0 ? Math.round((wordCount / speakingSeconds) * 60) : 0,
+    fillerWords,
+    fillersPer100Words: wordCount > 0 ? round((fillerWords / wordCount) * 100) : 0,
+    selfCorrections: countSelfCorrections(text),
+    repetitions: countRepetitions(words)
+  };
+
+  if (timedWords.length > 0) {
+    const pauses = timedWords.slice(1)
+      .map((word, i) => word.start - timedWords[i].end)
+      .filter(gap => gap >= LONG_PAUSE_SECONDS);
+    metrics.longPauses = pauses.length;
+    metrics.longestPauseSeconds = round(Math.max(0, ...pauses));
+  }
+
+  return metrics;
+}
+
+// Evidence for the evaluator prompt
+export function describeFluency(metrics: FluencyMetrics): string {
+  const pauses = metrics.longPauses === undefined
+    ? 'Pauses: not measured.'
+    : `Long pauses (${LONG_PAUSE_SECONDS} second or more): ${metrics.longPauses}, the longest ${metrics.longestPauseSeconds} seconds.`;
+  return [
+    `Words: ${metrics.wordCount} in ${metrics.speakingSeconds} seconds of speech (${metrics.wordsPerMinute} words per minute).`,
+    pauses,
+    `Filler words: ${metrics.fillerWords} (${metrics.fillersPer100Words} per 100 words).`,
+    `Self-corrections: ${metrics.selfCorrections}. Repetitions: ${metrics.repetitions}.`
+  ].join(' ');
+}
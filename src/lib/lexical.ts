@@ -0,0 +1,217 @@
+import cefrWords from '@/data/cefr_words.json';
+import lexicalPhrases from '@/data/lexical_phrases.json';
+
+// Vocabulary measured locally from the transcript against a bundled word list,
+// so the evaluator and the learner can see what the Lexical Resource band
+// rests on: how varied the words are, how advanced, and what was overused.
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const;
+
+export type CefrLevel = typeof CEFR_LEVELS[number];
+
+export interface LexicalProfile {
+  tokenCount: number;
+  typeCount: number;
+  typeTokenRatio: number;
+  // Measure of textual lexical diversity; absent below MIN_MTLD_TOKENS, where it is unreliable
+  mtld?: number;
+  // Percentage of words at each level; names, numbers and words missing from the list are unlisted
+  cefrShare: Record<CefrLevel | 'unlisted', number>;
+  // B2 and above, most advanced first
+  advancedWords: string[];
+  overusedWords: Array<{ word: string; count: number }>;
+  collocations: string[];
+  idioms: string[];
+}
+
+export const MIN_MTLD_TOKENS = 50;
+
+// Type-token ratio at which MTLD closes a factor (McCarthy & Jarvis, 2010)
+const MTLD_THRESHOLD = 0.72;
+
+// A content word is overused when it appears at least this often and makes up this share of the answer
+const OVERUSE_MIN_COUNT = 3;
+const OVERUSE_MIN_SHARE = 0.02;
+
+const MAX_LISTED_WORDS = 8;
+
+const WORD_LEVELS = new Map<string, CefrLevel>(
+  CEFR_LEVELS.flatMap(level => cefrWords[level].map(word => [word, level] as const))
+);
+
+const IRREGULAR_FORMS: Record<string, string> = {
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', being: 'be',
+  has: 'have', had: 'have', does: 'do', did: 'do', done: 'do',
+  went: 'go', gone: 'go', said: 'say', made: 'make', took: 'take', taken: 'take',
+  got: 'get', gotten: 'get', saw: 'see', seen: 'see', came: 'come', knew: 'know', known: 'know',
+  thought: 'think', told: 'tell', found: 'find', gave: 'give', given: 'give', felt: 'feel',
+  left: 'leave', kept: 'keep', began: 'begin', begun: 'begin', brought: 'bring', bought: 'buy',
+  taught: 'teach', caught: 'catch', wrote: 'write', written: 'write', ate: 'eat', eaten: 'eat',
+  drank: 'drink', drunk: 'drink', spoke: 'speak', spoken: 'speak', met: 'meet', ran: 'run',
+  sat: 'sit', stood: 'stand', understood: 'understand', heard: 'hear', paid: 'pay', meant: 'mean',
+  spent: 'spend', built: 'build', sent: 'send', lost: 'lose', held: 'hold', chose: 'choose',
+  chosen: 'choose', grew: 'grow', grown: 'grow', drove: 'drive', driven: 'drive', flew: 'fly',
+  flown: 'fly', swam: 'swim', sang: 'sing', slept: 'sleep', wore: 'wear', worn: 'wear', won: 'win',
+  fell: 'fall', fallen: 'fall', forgot: 'forget', forgotten: 'forget', broke: 'break', rode: 'ride',
+  became: 'become', led: 'lead', dealt: 'deal', fought: 'fight', threw: 'throw', thrown: 'throw',
+  hid: 'hide', hidden: 'hide', sought: 'seek', arose: 'arise', arisen: 'arise', bore: 'bear',
+  children: 'child', men: 'man', women: 'woman', feet: 'foot', teeth: 'tooth', lives: 'life',
+  "won't": 'will', "can't": 'can', "i'm": 'i'
+};
+
+const CONTRACTION_SUFFIX = /(n't|'s|'re|'ve|'ll|'d|'m)$/;
+
+// Dropped when matching phrases, so "made a decision" and "make decisions" both count
+const PHRASE_SKIPPED_WORDS = new Set(['a', 'an', 'the', 'my', 'your', 'his', 'her', 'its', 'our', 'their']);
+
+// Grammar words, which every answer repeats and no examiner would call overused
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'so', 'because', 'if', 'that', 'this', 'these', 'those',
+  'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them', 'my', 'your',
+  'his', 'its', 'our', 'their', 'be', 'have', 'do', 'will', 'would', 'can', 'could', 'should',
+  'may', 'might', 'must', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'from', 'by', 'about',
+  'as', 'than', 'then', 'there', 'what', 'which', 'who', 'when', 'where', 'how', 'not', 'no',
+  'all', 'some', 'any', 'also', 'just', 'up', 'out', 'into'
+]);
+
+// Hesitation noises are fluency evidence, not vocabulary
+const HESITATION = /^(um+|uh+|er+m?|ah+|hmm+)$/;
+
+const tokenise = (text: string) => text.toLowerCase().replace(/[‘’]/g, "'").match(/[a-z]+(?:'[a-z]+)*/g) ?? [];
+
+// Dictionary forms a word could be inflected from, most likely first
+function candidateLemmas(word: string): string[] {
+  const irregular = IRREGULAR_FORMS[word];
+  if (irregular) return [irregular];
+
+  const base = word.replace(CONTRACTION_SUFFIX, '');
+  const candidates = [base];
+  const stem = (suffix: string) => base.slice(0, -suffix.length);
+  const undoubled = (stemmed: string) => /([b-df-hj-np-tv-z])\1$/.test(stemmed) ? stemmed.slice(0, -1) : stemmed;
+
+  if (base.endsWith('ies') || base.endsWith('ied')) candidates.push(`${stem('ies')}y`);
+  if (base.endsWith('es')) candidates.push(stem('es'));
+  if (base.endsWith('s') && !base.endsWith('ss')) candidates.push(stem('s'));
+  if (base.endsWith('ed')) candidates.push(stem('ed'), `${stem('ed')}e`, undoubled(stem('ed')));
+  if (base.endsWith('ing')) candidates.push(stem('ing'), `${stem('ing')}e`, undoubled(stem('ing')));
+  if (base.endsWith('ier') || base.endsWith('iest')) candidates.push(`${base.replace(/ie(r|st)$/, '')}y`);
+  if (base.endsWith('er')) candidates.push(stem('er'), `${stem('er')}e`, undoubled(stem('er')));
+  if (base.endsWith('est')) candidates.push(stem('est'), `${stem('est')}e`, undoubled(stem('est')));
+  if (base.endsWith('ily')) candidates.push(`${stem('ily')}y`);
+  if (base.endsWith('ly')) candidates.push(stem('ly'), `${stem('ly')}e`);
+  return candidates;
+}
+
+// The first candidate in the word list, or the word itself when none is listed
+export function lemmatise(word: string): string {
+  const candidates = candidateLemmas(word);
+  return candidates.find(candidate => WORD_LEVELS.has(candidate)) ?? candidates[0];
+}
+
+export function getCefrLevel(word: string): CefrLevel | undefined {
+  return WORD_LEVELS.get(lemmatise(word.toLowerCase()));
+}
+
+function mtldPass(tokens: string[]): number {
+  let factors = 0;
+  let types = new Set<string>();
+  let count = 0;
+
+  for (const token of tokens) {
+    types.add(token);
+    count++;
+    if (types.size / count <= MTLD_THRESHOLD) {
+      factors++;
+      types = new Set();
+      count = 0;
+    }
+  }
+  // The unfinished segment counts as the fraction of a factor it got through
+  if (count > 0) factors += (1 - types.size / count) / (1 - MTLD_THRESHOLD);
+
+  return factors > 0 ? tokens.length / factors : tokens.length;
+}
+
+// Averages a forward and a backward pass, as the original measure does
+export function measureMtld(tokens: string[]): number {
+  return (mtldPass(tokens) + mtldPass([...tokens].reverse())) / 2;
+}
+
+const phraseLemmas = (phrase: string) => tokenise(phrase).map(lemmatise).filter(word => !PHRASE_SKIPPED_WORDS.has(word));
+
+const COLLOCATIONS = lexicalPhrases.collocations.map(phrase => ({ phrase, lemmas: phraseLemmas(phrase) }));
+const IDIOMS = lexicalPhrases.idioms.map(phrase => ({ phrase, lemmas: phraseLemmas(phrase) }));
+
+function findPhrases(lemmas: string[], phrases: typeof COLLOCATIONS): string[] {
+  const text = ` ${lemmas.join(' ')} `;
+  return phrases.filter(({ lemmas: phrase }) => text.includes(` ${phrase.join(' ')} `)).map(({ phrase }) => phrase);
+}
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+export function analyseLexis(text: string): LexicalProfile {
+  const tokens = tokenise(text).filter(token => !HESITATION.test(token));
+  const lemmas = tokens.map(lemmatise);
+  const tokenCount = tokens.length;
+  const typeCount = new Set(tokens).size;
+
+  const levelCounts: Record<CefrLevel | 'unlisted', number> = { A1: 0, A2: 0, B1: 0, B2: 0, C1: 0, C2: 0, unlisted: 0 };
+  const advanced = new Map<string, CefrLevel>();
+  const lemmaCounts = new Map<string, number>();
+
+  for (const lemma of lemmas) {
+    const level = WORD_LEVELS.get(lemma);
+    levelCounts[level ?? 'unlisted']++;
+    if (level && CEFR_LEVELS.indexOf(level) >= CEFR_LEVELS.indexOf('B2')) advanced.set(lemma, level);
+    if (!FUNCTION_WORDS.has(lemma)) lemmaCounts.set(lemma, (lemmaCounts.get(lemma) ?? 0) + 1);
+  }
+
+  const cefrShare = Object.fromEntries(
+    Object.entries(levelCounts).map(([level, count]) => [level, tokenCount > 0 ? round((count / tokenCount) * 100) : 0])
+  ) as LexicalProfile['cefrShare'];
+
+  const overuseThreshold = Math.max(OVERUSE_MIN_COUNT, Math.ceil(tokenCount * OVERUSE_MIN_SHARE));
+  const overusedWords = [...lemmaCounts]
+    .filter(([, count]) => count >= overuseThreshold)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_LISTED_WORDS)
+    .map(([word, count]) => ({ word, count }));
+
+  const advancedWords = [...advanced]
+    .sort((a, b) => CEFR_LEVELS.indexOf(b[1]) - CEFR_LEVELS.indexOf(a[1]))
+    .slice(0, MAX_LISTED_WORDS)
+    .map(([word]) => word);
+
+  const phraseText = lemmas.filter(lemma => !PHRASE_SKIPPED_WORDS.has(lemma));
+  const profile: LexicalProfile = {
+    tokenCount,
+    typeCount,
+    typeTokenRatio: tokenCount > 0 ? round(typeCount / tokenCount, 2) : 0,
+    cefrShare,
+    advancedWords,
+    overusedWords,
+    collocations: findPhrases(phraseText, COLLOCATIONS),
+    idioms: findPhrases(phraseText, IDIOMS)
+  };
+
+  if (tokenCount >= MIN_MTLD_TOKENS) profile.mtld = Math.round(measureMtld(tokens));
+
+  return profile;
+}
+
+// Evidence for the evaluator prompt
+export function describeLexis(profile: LexicalProfile): string {
+  const diversity = profile.mtld === undefined
+    ? `type-token ratio ${profile.typeTokenRatio}, too short for MTLD`
+    : `type-token ratio ${profile.typeTokenRatio}, MTLD ${profile.mtld}`;
+  const levels = CEFR_LEVELS.map(level => `${level} ${profile.cefrShare[level]}%`).join(', ');
+  const list = (items: string[]) => items.length > 0 ? items.join(', ') : 'none';
+
+  return [
+    `Words: ${profile.tokenCount}, ${profile.typeCount} different (${diversity}).`,
+    `CEFR levels: ${levels}, not in the word list ${profile.cefrShare.unlisted}%.`,
+    `Words at B2 or above: ${list(profile.advancedWords)}.`,
+    `Overused words: ${list(profile.overusedWords.map(({ word, count }) => `${word} (${count} times)`))}.`,
+    `Collocations: ${list(profile.collocations)}. Idiomatic phrases: ${list(profile.idioms)}.`
+  ].join(' ');
+}
@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export interface IApiKey extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  provider: 'openai'
+  label?: string
+  // AES-256-GCM parts; cleared when the key is revoked
+  ciphertext?: string
+  iv?: string
+  authTag?: string
+  lastFour: string // Shown in the UI so users can recognise the key
+  status: 'active' | 'revoked'
+  lastValidatedAt?: Date
+  lastValidationError?: string
+  rotatedAt?: Date
+  revokedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  provider: {
+    type: String,
+    enum: ['openai'],
+    default: 'openai'
+  },
+  label: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Label cannot exceed 50 characters']
+  },
+  ciphertext: {
+    type: String
+  },
+  iv: {
+    type: String
+  },
+  authTag: {
+    type: String
+  },
+  lastFour: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['active', 'revoked'],
+    default: 'active',
+    index: true
+  },
+  lastValidatedAt: {
+    type: Date
+  },
+  lastValidationError: {
+    type: String
+  },
+  rotatedAt: {
+    type: Date
+  },
+  revokedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+})
+
+// A user can only hold one active key per provider
+ApiKeySchema.index(
+  { userId: 1, provider: 1 },
+  { unique: true, partialFilterExpression: { status: 'active' } }
+)
+
+export const ApiKey = mongoose.models.ApiKey || mongoose.model<IApiKey>('ApiKey', ApiKeySchema)
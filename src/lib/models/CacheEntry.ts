@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export interface ICacheEntry extends Document {
+  _id: mongoose.Types.ObjectId
+  key: string
+  value?: unknown // JSON results such as evaluations and model answers
+  binary?: Buffer // Audio and other ArrayBuffer results
+  size: number // approximate bytes, used for the size limit
+  expiresAt: Date
+  lastAccessedAt: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const CacheEntrySchema = new Schema<ICacheEntry>({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  value: {
+    type: Schema.Types.Mixed
+  },
+  binary: {
+    type: Buffer
+  },
+  size: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  lastAccessedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+})
+
+// MongoDB removes expired entries on its own; reads also check expiresAt
+// because the TTL monitor only runs about once a minute
+CacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+CacheEntrySchema.index({ lastAccessedAt: 1 })
+
+export const CacheEntry = mongoose.models.CacheEntry || mongoose.model<ICacheEntry>('CacheEntry', CacheEntrySchema)
@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export interface IQuestion extends Document {
+  _id: mongoose.Types.ObjectId
+  part: 1 | 2 | 3
+  topic: string // Part 1 frame, Part 2 cue card theme or Part 3 discussion theme
+  text: string
+  bulletPoints: string[] // Part 2 "You should say" prompts
+  linkedPart3Questions: string[] // Part 3 discussion that follows a Part 2 cue card
+  difficulty: 'easy' | 'medium' | 'hard'
+  status: 'active' | 'retired'
+  seasonTags: string[] // e.g. "2025-may-aug"
+  createdBy?: mongoose.Types.ObjectId
+  updatedBy?: mongoose.Types.ObjectId
+  retiredAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const QuestionSchema = new Schema<IQuestion>({
+  part: {
+    type: Number,
+    required: [true, 'IELTS part is required'],
+    enum: [1, 2, 3],
+    index: true
+  },
+  topic: {
+    type: String,
+    required: [true, 'Topic is required'],
+    trim: true,
+    index: true
+  },
+  text: {
+    type: String,
+    required: [true, 'Question text is required'],
+    trim: true,
+    maxlength: [1500, 'Question text cannot exceed 1500 characters']
+  },
+  bulletPoints: [{
+    type: String,
+    trim: true
+  }],
+  linkedPart3Questions: [{
+    type: String,
+    trim: true
+  }],
+  difficulty: {
+    type: String,
+    enum: ['easy', 'medium', 'hard'],
+    default: 'medium'
+  },
+  status: {
+    type: String,
+    enum: ['active', 'retired'],
+    default: 'active',
+    index: true
+  },
+  seasonTags: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  retiredAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+})
+
+// The same wording can only appear once per part
+QuestionSchema.index({ part: 1, text: 1 }, { unique: true })
+QuestionSchema.index({ part: 1, status: 1, topic: 1 })
+QuestionSchema.index({ seasonTags: 1 })
+
+export const Question = mongoose.models.Question || mongoose.model<IQuestion>('Question', QuestionSchema)
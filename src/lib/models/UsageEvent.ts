@@ -0,0 +1,87 @@
+import mongoose, { Document, Schema } from 'mongoose'
+
+export type UsageEventKind = 'call' | 'cache-hit' | 'cache-miss'
+
+export interface IUsageEvent extends Document {
+  _id: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  sessionId?: string // practice session the call was made for, when known
+  operation: string
+  kind: UsageEventKind
+  keySource: 'organisation' | 'personal'
+  provider: string
+  modelName?: string
+  inputTokens: number
+  outputTokens: number
+  characters: number // text to speech input
+  audioSeconds: number // speech to text input
+  costUsd: number // estimated from the list price table; 0 for cache events
+  createdAt: Date
+}
+
+const UsageEventSchema = new Schema<IUsageEvent>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  sessionId: {
+    type: String,
+    trim: true
+  },
+  operation: {
+    type: String,
+    required: [true, 'Operation is required']
+  },
+  kind: {
+    type: String,
+    enum: ['call', 'cache-hit', 'cache-miss'],
+    required: true
+  },
+  keySource: {
+    type: String,
+    enum: ['organisation', 'personal'],
+    required: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  modelName: {
+    type: String
+  },
+  inputTokens: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  outputTokens: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  characters: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  audioSeconds: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  costUsd: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+})
+
+// Indexes for efficient queries
+UsageEventSchema.index({ userId: 1, createdAt: -1 })
+UsageEventSchema.index({ userId: 1, sessionId: 1 })
+UsageEventSchema.index({ keySource: 1, createdAt: -1 }) // organisation-wide spend
+
+export const UsageEvent = mongoose.models.UsageEvent || mongoose.model<IUsageEvent>('UsageEvent', UsageEventSchema)
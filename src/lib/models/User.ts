@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose'
+import type { SpendLimits } from '@/lib/usage'
+import { COST_PROFILE_NAMES, DEFAULT_COST_PROFILE, type CostProfileName } from '@/lib/cost-profiles'
 
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId
@@ -9,8 +11,24 @@ export interface IUser extends Document {
   updatedAt: Date
   lastLogin?: Date
   isActive: boolean
+  role: 'user' | 'admin' // Admins manage the question bank
+  // Caps on estimated AI spend: set by the learner for their own key, by an admin for the organisation key
+  spendLimits?: SpendLimits
+  organisationSpendLimits?: SpendLimits
+  costProfile: CostProfileName // Models and limits used for the user's AI calls
 }
 
+const SpendLimitsSchema = new Schema<SpendLimits>({
+  dailyUsd: {
+    type: Number,
+    min: [0.01, 'Daily limit must be at least $0.01']
+  },
+  monthlyUsd: {
+    type: Number,
+    min: [0.01, 'Monthly limit must be at least $0.01']
+  }
+}, { _id: false })
+
 const UserSchema = new Schema<IUser>({
   name: {
     type: String,
@@ -40,6 +58,18 @@ const UserSchema = new Schema<IUser>({
   isActive: {
     type: Boolean,
     default: true
+  },
+  role: {
+    type: String,
+    enum: ['user', 'admin'],
+    default: 'user'
+  },
+  spendLimits: SpendLimitsSchema,
+  organisationSpendLimits: SpendLimitsSchema,
+  costProfile: {
+    type: String,
+    enum: [...COST_PROFILE_NAMES],
+    default: DEFAULT_COST_PROFILE
   }
 }, {
   timestamps: true
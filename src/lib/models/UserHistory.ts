@@ -1,15 +1,26 @@
 import mongoose, { Document, Schema } from 'mongoose'
+import type { TranscriptTimings } from '@/lib/providers'
+import type { FluencyMetrics } from '@/lib/fluency'
+import type { LexicalProfile } from '@/lib/lexical'
 
 export interface IUserHistory extends Document {
   _id: mongoose.Types.ObjectId
   userId: mongoose.Types.ObjectId
   sessionId: string
-  part: 1 | 2 | 3
+  sessionType: 'practice' | 'full-test' | 'drill'
+  part?: 1 | 2 | 3 // Only set for practice; full tests keep the part on each question
   topic?: string
+  drillCriterion?: 'fluencyCoherence' | 'lexicalResource' | 'grammaticalRange' | 'pronunciation'
   questions: Array<{
+    part?: 1 | 2 | 3
+    topic?: string // Part 1 topic or the Part 2 cue card a Part 3 discussion followed
     question: string
     userAnswer?: string
+    timings?: TranscriptTimings // Word and segment timings of the recorded answer
+    fluency?: FluencyMetrics // Speech rate, pauses, fillers, self-corrections and repetitions
+    lexis?: LexicalProfile // Lexical diversity, CEFR level share, overused words, collocations and idioms
     modelAnswer?: string
+    notes?: string // Part 2 preparation notes
     evaluation?: {
       bandScore: number
       criteria: {
@@ -18,10 +29,29 @@ export interface IUserHistory extends Document {
         grammaticalRange: number
         pronunciation: number
       }
+      justifications?: {
+        fluencyCoherence: string
+        lexicalResource: string
+        grammaticalRange: string
+        pronunciation: string
+      }
       feedback: string
       strengths: string[]
       improvements: string[]
     }
+    drill?: {
+      criterion: 'fluencyCoherence' | 'lexicalResource' | 'grammaticalRange' | 'pronunciation'
+      band: number
+      justification: string
+      feedback: string
+      improvements: string[]
+      metrics?: {
+        wordCount: number
+        fillerWords: number
+        wordsPerMinute: number
+        durationSeconds: number
+      }
+    }
     timestamp: Date
   }>
   overallScore?: {
@@ -39,6 +69,46 @@ export interface IUserHistory extends Document {
   updatedAt: Date
 }
 
+const CRITERIA = ['fluencyCoherence', 'lexicalResource', 'grammaticalRange', 'pronunciation']
+
+const TranscriptTimingsSchema = new Schema<TranscriptTimings>({
+  durationSeconds: Number,
+  words: [new Schema({ word: String, start: Number, end: Number }, { _id: false })],
+  segments: [new Schema({ text: String, start: Number, end: Number }, { _id: false })]
+}, { _id: false })
+
+const FluencyMetricsSchema = new Schema<FluencyMetrics>({
+  wordCount: Number,
+  speakingSeconds: Number,
+  wordsPerMinute: Number,
+  longPauses: Number,
+  longestPauseSeconds: Number,
+  fillerWords: Number,
+  fillersPer100Words: Number,
+  selfCorrections: Number,
+  repetitions: Number
+}, { _id: false })
+
+const LexicalProfileSchema = new Schema<LexicalProfile>({
+  tokenCount: Number,
+  typeCount: Number,
+  typeTokenRatio: Number,
+  mtld: Number,
+  cefrShare: {
+    A1: Number,
+    A2: Number,
+    B1: Number,
+    B2: Number,
+    C1: Number,
+    C2: Number,
+    unlisted: Number
+  },
+  advancedWords: [String],
+  overusedWords: [new Schema({ word: String, count: Number }, { _id: false })],
+  collocations: [String],
+  idioms: [String]
+}, { _id: false })
+
 const UserHistorySchema = new Schema<IUserHistory>({
   userId: {
     type: Schema.Types.ObjectId,
@@ -51,9 +121,18 @@ const UserHistorySchema = new Schema<IUserHistory>({
     required: [true, 'Session ID is required'],
     index: true
   },
+  sessionType: {
+    type: String,
+    enum: ['practice', 'full-test', 'drill'],
+    default: 'practice',
+    index: true
+  },
   part: {
     type: Number,
-    required: [true, 'IELTS part is required'],
+    required: [
+      function (this: IUserHistory) { return this.sessionType === 'practice' },
+      'IELTS part is required'
+    ],
     enum: [1, 2, 3],
     index: true
   },
@@ -62,7 +141,23 @@ const UserHistorySchema = new Schema<IUserHistory>({
     trim: true,
     index: true
   },
+  drillCriterion: {
+    type: String,
+    enum: CRITERIA,
+    required: [
+      function (this: IUserHistory) { return this.sessionType === 'drill' },
+      'Drill criterion is required'
+    ]
+  },
   questions: [{
+    part: {
+      type: Number,
+      enum: [1, 2, 3]
+    },
+    topic: {
+      type: String,
+      trim: true
+    },
     question: {
       type: String,
       required: true,
@@ -72,10 +167,17 @@ const UserHistorySchema = new Schema<IUserHistory>({
       type: String,
       trim: true
     },
+    timings: TranscriptTimingsSchema,
+    fluency: FluencyMetricsSchema,
+    lexis: LexicalProfileSchema,
     modelAnswer: {
       type: String,
       trim: true
     },
+    notes: {
+      type: String,
+      trim: true
+    },
     evaluation: {
       bandScore: {
         type: Number,
@@ -104,6 +206,12 @@ const UserHistorySchema = new Schema<IUserHistory>({
           max: [9, 'Score cannot exceed 9']
         }
       },
+      justifications: {
+        fluencyCoherence: { type: String, trim: true },
+        lexicalResource: { type: String, trim: true },
+        grammaticalRange: { type: String, trim: true },
+        pronunciation: { type: String, trim: true }
+      },
       feedback: {
         type: String,
         trim: true
@@ -117,6 +225,35 @@ const UserHistorySchema = new Schema<IUserHistory>({
         trim: true
       }]
     },
+    drill: {
+      criterion: {
+        type: String,
+        enum: CRITERIA
+      },
+      band: {
+        type: Number,
+        min: [1, 'Band score must be at least 1'],
+        max: [9, 'Band score cannot exceed 9']
+      },
+      justification: {
+        type: String,
+        trim: true
+      },
+      feedback: {
+        type: String,
+        trim: true
+      },
+      improvements: [{
+        type: String,
+        trim: true
+      }],
+      metrics: {
+        wordCount: Number,
+        fillerWords: Number,
+        wordsPerMinute: Number,
+        durationSeconds: Number
+      }
+    },
     timestamp: {
       type: Date,
       default: Date.now
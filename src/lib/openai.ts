@@ -1,70 +1,123 @@
-import OpenAI from 'openai';
 import part1Questions from '@/data/part_1_questions.json';
 import part2Questions from '@/data/part_2_questions.json';
+import { createAIProvider, getProviderConfig, type AIProvider, type ChatRequest, type Transcription } from '@/lib/providers';
+import { EvaluationUnavailableError, type CriterionKey, type DrillEvaluation, type Evaluation } from '@/lib/evaluation';
+import { drillEvaluationSchema, evaluationSchema, modelAnswerTextSchema, questionTextSchema, transcriptionSchema } from '@/lib/schemas';
+import { completeStructuredOutput, requestStructuredOutput, StructuredOutputError } from '@/lib/structured-output';
+import { withOverallBand } from '@/lib/scoring';
+import { buildPart3Prompt } from '@/lib/part3-prompt';
+import { buildFollowUpPrompt, getFallbackFollowUp, type FollowUpMove } from '@/lib/examiner';
+import { describeFluency, type FluencyMetrics } from '@/lib/fluency';
+import { describeLexis, type LexicalProfile } from '@/lib/lexical';
+import { formatBankQuestion, type BankQuestion } from '@/lib/test-plan';
+import { buildDrillEvaluationPrompt, buildDrillQuestionPrompt, DRILLS, type DrillMetrics } from '@/lib/drills';
+import { CACHE_TTL, hashKey, type CacheBackend } from '@/lib/cache';
+import { BudgetExceededError, type BudgetLevel, type UsageOperation, type UsageRecorder } from '@/lib/usage';
+import { AIUnavailableError, DEFAULT_RETRY, getCircuitBreaker, getRetryAfterMs, isTransientError, withRetry, type CircuitBreaker } from '@/lib/resilience';
+import { COST_PROFILES, DEFAULT_COST_PROFILE, type ChatOperation, type ChatSettings, type CostProfile, type CostProfileName } from '@/lib/cost-profiles';
+
+export interface AIServiceOptions {
+  // Replaces the configured provider (tests, offline tools); usage is then not reported
+  provider?: AIProvider;
+  cache?: CacheBackend;
+  usage?: UsageRecorder;
+  // Models, token limits, input truncation and audio tier for every operation
+  profile?: CostProfileName;
+  // Where the learner stands against their spend caps; 'exceeded' switches to the economy profile
+  budget?: BudgetLevel;
+}
+
+// Whisper tidies away hesitations unless its prompt contains some, and fluency analysis needs them
+const DISFLUENT_TRANSCRIPTION_PROMPT = 'Umm, let me think, like, hmm... Okay, here\'s what I\'m, like, thinking.';
+
+// Per attempt; evaluations and model answers write the most, transcription uploads audio
+const OPERATION_TIMEOUTS_MS: Record<UsageOperation, number> = {
+  question: 20000,
+  'follow-up': 15000,
+  evaluation: 45000,
+  'drill-question': 20000,
+  'drill-evaluation': 30000,
+  'model-answer': 45000,
+  tts: 30000,
+  stt: 60000
+};
 
 export class OpenAIService {
-  private client: OpenAI;
+  private provider: AIProvider;
   private apiKey: string;
+  // Optional: general model answers and speech are always cached; questions and
+  // evaluations only when the profile reuses results
+  private cache?: CacheBackend;
+  private usage?: UsageRecorder;
+  private profile: CostProfile;
+  private budget: BudgetLevel;
+  private breaker: CircuitBreaker;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, { provider, cache, usage, profile = DEFAULT_COST_PROFILE, budget = 'ok' }: AIServiceOptions = {}) {
     this.apiKey = apiKey;
-    this.client = new OpenAI({
-      apiKey,
-      dangerouslyAllowBrowser: true
+    this.usage = usage;
+    this.budget = budget;
+    this.profile = COST_PROFILES[budget === 'exceeded' ? 'economy' : profile];
+    this.provider = provider ?? createAIProvider({
+      ...getProviderConfig(apiKey),
+      onUsage: call => this.usage?.recordCall(call)
     });
+    this.cache = cache;
+    this.breaker = getCircuitBreaker(this.provider.name, hashKey(apiKey));
+  }
+
+  // Retries transient failures with backoff, inside the circuit breaker for this key
+  private call<T>(operation: UsageOperation, request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    return this.breaker.execute(() =>
+      withRetry(request, { ...DEFAULT_RETRY, timeoutMs: OPERATION_TIMEOUTS_MS[operation] })
+    );
+  }
+
+  // Retries until the reply starts; after that a failure ends the stream. The timeout
+  // covers the start of the reply, the learner's signal cancels it at any point
+  private openStream(operation: ChatOperation, request: ChatRequest, cancel?: AbortSignal): Promise<AsyncIterable<string>> {
+    return this.call(operation, signal => this.provider.streamChat({
+      ...request,
+      signal: cancel ? AbortSignal.any([cancel, signal]) : signal
+    }));
+  }
+
+  private async cached<T>(operation: UsageOperation, key: string): Promise<T | null> {
+    if (!this.cache) return null;
+    const value = await this.cache.get<T>(key);
+    this.usage?.recordCacheLookup(operation, value !== null);
+    return value;
+  }
+
+  private settings(operation: ChatOperation): ChatSettings {
+    return this.profile.chat[operation];
+  }
+
+  private truncate(text: string, operation: ChatOperation): string {
+    const limit = this.settings(operation).maxInputChars;
+    return limit ? text.slice(0, limit) : text;
   }
 
   // Validate API key by making a simple test request
   async validateApiKey(): Promise<{ isValid: boolean; error?: string }> {
-    try {
-      // Make a simple request to test the API key
-      await this.client.models.list();
-      return { isValid: true };
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } catch (error: any) {
-      console.error('API key validation failed:', error);
-      
-      if (error?.status === 401) {
-        return { 
-          isValid: false, 
-          error: 'Invalid API key. Please check your OpenAI API key and try again.' 
-        };
-      } else if (error?.status === 429) {
-        return { 
-          isValid: false, 
-          error: 'API rate limit exceeded. Please try again later or check your OpenAI account.' 
-        };
-      } else if (error?.status === 403) {
-        return { 
-          isValid: false, 
-          error: 'API access forbidden. Please ensure your API key has the required permissions.' 
-        };
-      } else if (error?.code === 'insufficient_quota') {
-        return { 
-          isValid: false, 
-          error: 'Insufficient API quota. Please check your OpenAI account billing.' 
-        };
-      } else {
-        return { 
-          isValid: false, 
-          error: 'Failed to connect to OpenAI. Please check your internet connection and try again.' 
-        };
-      }
-    }
+    return this.provider.validateApiKey();
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private handleApiError(error: any, operation: string): never {
     console.error(`Error in ${operation}:`, error);
     
-    if (error?.status === 401) {
+    if (error instanceof AIUnavailableError) {
+      throw error;
+    } else if (error?.status === 401) {
       throw new Error('Invalid API key. Please check your OpenAI API key in settings.');
-    } else if (error?.status === 429) {
-      throw new Error('API rate limit exceeded. Please try again in a few moments.');
-    } else if (error?.status === 403) {
-      throw new Error('API access forbidden. Please check your API key permissions.');
     } else if (error?.code === 'insufficient_quota') {
       throw new Error('Insufficient API quota. Please check your OpenAI account billing.');
+    } else if (isTransientError(error)) {
+      // Still failing after every retry: report it the same way as an open circuit
+      throw new AIUnavailableError(Math.ceil((getRetryAfterMs(error) ?? 30000) / 1000));
+    } else if (error?.status === 403) {
+      throw new Error('API access forbidden. Please check your API key permissions.');
     } else if (error?.message?.includes('network')) {
       throw new Error('Network error. Please check your internet connection.');
     } else {
@@ -72,16 +125,28 @@ export class OpenAIService {
     }
   }
 
-  async generateQuestion(part: number, questionNumber: number, previousResponses?: string[]): Promise<string> {
+  // Part 1 and Part 2 bank questions are asked as written; Part 3 draws on the cue card's linked questions
+  async generateQuestion(part: number, questionNumber: number, previousResponses?: string[], topic?: string, previousQuestions?: string[], bankQuestion?: BankQuestion): Promise<string> {
+    if (bankQuestion && part !== 3) return formatBankQuestion(bankQuestion);
+
     const prompts = {
-      1: this.getPart1Prompt(),
-      2: this.getPart2Prompt(),
-      3: this.getPart3Prompt(questionNumber, previousResponses)
+      1: this.getPart1Prompt(topic),
+      2: this.getPart2Prompt(topic),
+      3: this.getPart3Prompt(questionNumber, previousResponses, bankQuestion?.text ?? topic, previousQuestions, bankQuestion?.linkedPart3Questions)
     };
 
+    const { model, maxTokens } = this.settings('question');
+    // Part 3 questions also depend on their place in the discussion
+    const contextKey = [...(previousQuestions || []), ...(previousResponses || [])].join('|');
+    const cacheKey = this.profile.reuseResults
+      ? `question_${model}_${part}_${questionNumber}_${hashKey(bankQuestion ? JSON.stringify(bankQuestion) : topic || '')}_${hashKey(contextKey)}`
+      : undefined;
+    const cached = cacheKey ? await this.cached<string>('question', cacheKey) : null;
+    if (cached) return cached;
+
     try {
-      const response = await this.client.chat.completions.create({
-        model: 'gpt-4',
+      const question = await this.call('question', signal => this.provider.generateQuestion({
+        model,
         messages: [
           {
             role: 'system',
@@ -92,202 +157,418 @@ export class OpenAIService {
             content: prompts[part as keyof typeof prompts]
           }
         ],
-        max_tokens: 150,
-        temperature: 0.7
-      });
+        maxTokens,
+        temperature: 0.7,
+        operation: 'question',
+        signal
+      }));
+
+      const parsed = questionTextSchema.safeParse(question);
+      if (!parsed.success) return this.getFallbackQuestion(part, questionNumber);
 
-      return response.choices[0]?.message?.content || 'Could you tell me about yourself?';
+      if (cacheKey) await this.cache?.set(cacheKey, parsed.data, CACHE_TTL.question);
+      return parsed.data;
     } catch (error) {
       this.handleApiError(error, 'generate question');
     }
   }
 
-  async evaluateResponse(response: string, part: number): Promise<{
-    score: number;
-    feedback: string;
-    suggestions: string[];
-  }> {
+  // Follow-ups depend on the exact answer, so they are never cached
+  async generateFollowUpQuestion(move: FollowUpMove, part: number, question: string, answer: string): Promise<string> {
+    const { model, maxTokens } = this.settings('follow-up');
     try {
-      const evaluation = await this.client.chat.completions.create({
-        model: 'gpt-4',
+      const followUp = await this.call('follow-up', signal => this.provider.generateQuestion({
+        model,
         messages: [
           {
             role: 'system',
-            content: `You are an IELTS speaking examiner. Evaluate the following response for Part ${part} of the IELTS speaking test. 
-            
-            Provide feedback on:
-            - Fluency and Coherence
-            - Lexical Resource (vocabulary)
-            - Grammatical Range and Accuracy
-            - Pronunciation (based on text analysis)
-            
-            Give a band score (1-9) and specific suggestions for improvement.
-            
-            Respond in JSON format:
-            {
-              "score": number,
-              "feedback": "detailed feedback string",
-              "suggestions": ["suggestion1", "suggestion2", "suggestion3"]
-            }`
+            content: 'You are an IELTS speaking examiner having a natural conversation with a candidate. Keep follow-up questions short and spoken in tone.'
           },
           {
             role: 'user',
-            content: `Part ${part} response: "${response}"`
+            content: buildFollowUpPrompt(move, part, question, this.truncate(answer, 'follow-up'))
           }
         ],
-        max_tokens: 300,
-        temperature: 0.3
-      });
-
-      const content = evaluation.choices[0]?.message?.content;
-      if (content) {
-        try {
-          return JSON.parse(content);
-        } catch {
-          return this.getFallbackEvaluation();
+        maxTokens,
+        temperature: 0.7,
+        operation: 'follow-up',
+        signal
+      }));
+
+      const parsed = questionTextSchema.safeParse(followUp);
+      return parsed.success ? parsed.data : getFallbackFollowUp(move);
+    } catch (error) {
+      this.handleApiError(error, 'generate follow-up question');
+    }
+  }
+
+  private evaluationRequest(response: string, part: number, fluency?: FluencyMetrics, lexis?: LexicalProfile): ChatRequest {
+    const { model, maxTokens } = this.settings('evaluation');
+    const measured = [
+      fluency && `Measured from the recording, use as evidence for Fluency and Coherence: ${describeFluency(fluency)}`,
+      lexis && `Measured from the transcript, use as evidence for Lexical Resource: ${describeLexis(lexis)}`
+    ].filter(Boolean).map(evidence => `\n\n${evidence}`).join('');
+    return {
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: `You are an IELTS speaking examiner. Evaluate the following response for Part ${part} of the IELTS speaking test. 
+          
+          Score each of the four official criteria separately using the public IELTS band descriptors (whole or half bands, 1-9):
+          - Fluency and Coherence
+          - Lexical Resource (vocabulary)
+          - Grammatical Range and Accuracy
+          - Pronunciation (based on text analysis)
+          
+          Justify every band with specific evidence quoted or paraphrased from the response. List what the candidate genuinely did well and the most important improvements.
+          
+          Respond in JSON format:
+          {
+            "score": number,
+            "criteria": {
+              "fluencyCoherence": { "band": number, "justification": "string" },
+              "lexicalResource": { "band": number, "justification": "string" },
+              "grammaticalRange": { "band": number, "justification": "string" },
+              "pronunciation": { "band": number, "justification": "string" }
+            },
+            "feedback": "overall summary string",
+            "strengths": ["strength1", "strength2"],
+            "improvements": ["improvement1", "improvement2", "improvement3"]
+          }`
+        },
+        {
+          role: 'user',
+          content: `Part ${part} response: "${this.truncate(response, 'evaluation')}"${measured}`
         }
+      ],
+      maxTokens,
+      temperature: 0.3,
+      operation: 'evaluation'
+    };
+  }
+
+  private sendEvaluation(request: ChatRequest): Promise<string | null> {
+    return this.call('evaluation', signal => this.provider.evaluateResponse({ ...request, signal }));
+  }
+
+  private evaluationCacheKey(response: string, part: number, fluency?: FluencyMetrics, lexis?: LexicalProfile): string | undefined {
+    // Identical answers delivered the same way get the same bands, so economy sessions can share them
+    return this.profile.reuseResults
+      ? `eval_${this.settings('evaluation').model}_${part}_${hashKey(response + JSON.stringify([fluency ?? null, lexis ?? null]))}`
+      : undefined;
+  }
+
+  private handleEvaluationError(error: unknown): never {
+    if (error instanceof StructuredOutputError) {
+      console.error('Unusable evaluation output:', error.issues);
+      throw new EvaluationUnavailableError();
+    }
+    this.handleApiError(error, 'evaluate response');
+  }
+
+  async evaluateResponse(response: string, part: number, fluency?: FluencyMetrics, lexis?: LexicalProfile): Promise<Evaluation> {
+    const cacheKey = this.evaluationCacheKey(response, part, fluency, lexis);
+    const cached = cacheKey ? await this.cached<Evaluation>('evaluation', cacheKey) : null;
+    if (cached) return cached;
+
+    try {
+      const evaluation = await requestStructuredOutput(request => this.sendEvaluation(request), this.evaluationRequest(response, part, fluency, lexis), evaluationSchema);
+      const result = withOverallBand(evaluation);
+
+      if (cacheKey) await this.cache?.set(cacheKey, result, CACHE_TTL.evaluation);
+      return result;
+    } catch (error) {
+      this.handleEvaluationError(error);
+    }
+  }
+
+  // Yields the evaluator's JSON as it is written so the session can show bands and
+  // feedback early; returns the validated evaluation
+  async *streamEvaluation(response: string, part: number, fluency?: FluencyMetrics, lexis?: LexicalProfile, signal?: AbortSignal): AsyncGenerator<string, Evaluation> {
+    const cacheKey = this.evaluationCacheKey(response, part, fluency, lexis);
+    const cached = cacheKey ? await this.cached<Evaluation>('evaluation', cacheKey) : null;
+    if (cached) return cached;
+
+    const request = this.evaluationRequest(response, part, fluency, lexis);
+    try {
+      let content = '';
+      for await (const text of await this.openStream('evaluation', request, signal)) {
+        content += text;
+        yield text;
       }
-      return this.getFallbackEvaluation();
+
+      // A malformed reply is repaired without streaming; the session shows the final result either way
+      const evaluation = await completeStructuredOutput(repair => this.sendEvaluation(repair), request, content, evaluationSchema);
+      const result = withOverallBand(evaluation);
+
+      if (cacheKey) await this.cache?.set(cacheKey, result, CACHE_TTL.evaluation);
+      return result;
     } catch (error) {
-      this.handleApiError(error, 'evaluate response');
+      this.handleEvaluationError(error);
     }
   }
 
-  async generateModelAnswer(question: string, part: number, userResponse?: string): Promise<string> {
+  async generateDrillQuestion(criterion: CriterionKey, questionNumber: number, previousQuestions?: string[]): Promise<string> {
+    const drill = DRILLS[criterion];
+    const { model, maxTokens } = this.settings('drill-question');
     try {
-      const response = await this.client.chat.completions.create({
-        model: 'gpt-4',
+      const question = await this.call('drill-question', signal => this.provider.generateQuestion({
+        model,
         messages: [
           {
             role: 'system',
-            content: `You are an IELTS speaking expert. ${userResponse ? 'Improve and refine the user\'s response' : 'Generate a model answer'} for the given question that would achieve a band score of 7.0-7.5.
-
-            ${userResponse ? `
-            TASK: Take the user's response and improve it while keeping the same core content and personal details. 
-            
-            Improvements should include:
-            - Fix grammatical errors and awkward phrasing
-            - Enhance vocabulary with more sophisticated words where appropriate
-            - Improve sentence structure and flow
-            - Add natural hesitations and fillers (um, well, you know) for authenticity
-            - Maintain the user's personal information and experiences
-            - Keep the same overall message and meaning
-            - Make it sound more natural and fluent
-            
-            Do NOT change the user's personal details, job, experiences, or core message. Only improve the language quality.
-            ` : `
-            TASK: Generate a completely new model answer.
-            `}
-
-            CRITICAL: Follow these EXACT structures for each part:
-
-            **Part 1 Structure (30-40 seconds, band 7-7.5):**
-            Answer → Reason → Example
-            - Start with a direct answer to the question
-            - Provide a clear reason or explanation
-            - Give a specific example or personal detail
-            - Keep it concise but complete
-
-            **Part 2 Structure (2 minutes, band 7-7.5):**
-            Intro → Details → Feelings → Reflection
-            - Intro: Brief introduction to the topic
-            - Details: Specific information covering the bullet points
-            - Feelings: How you felt about the experience/topic
-            - Reflection: What you learned or how it affected you
-
-            **Part 3 Structure (30-50 seconds, band 7-7.5):**
-            Point → Explain → Example
-            - Point: State your main argument or opinion
-            - Explain: Elaborate on your reasoning
-            - Example: Provide a concrete example to support your point
-
-            For Part ${part}, the response should demonstrate:
-            - Natural fluency with occasional hesitation (um, well, you know)
-            - Simple vocabulary with only a few advanced words where natural
-            - Mostly simple sentences with some compound sentences
-            - Generally accurate grammar with minor natural errors
-            - Clear pronunciation and appropriate intonation
-            
-            IMPORTANT: Keep the language SIMPLE and ACCESSIBLE. Don't use too many difficult words or complex structures. Sound like a real person having a normal conversation, not like a textbook. Use everyday vocabulary that feels natural and authentic.`
+            content: 'You are an IELTS speaking coach writing short practice prompts. Keep them natural and exam-like.'
           },
           {
             role: 'user',
-            content: userResponse 
-              ? `Question: "${question}"\n\nUser's Response: "${userResponse}"\n\nPlease improve this response to band 7-7.5 level following the Part ${part} structure while keeping the same personal details and core content.`
-              : `Generate a band 7-7.5 model answer for this IELTS Part ${part} question: "${question}" following the exact Part ${part} structure.`
+            content: buildDrillQuestionPrompt(drill, questionNumber, previousQuestions)
           }
         ],
-        max_tokens: part === 2 ? 400 : 250,
-        temperature: 0.7
-      });
+        maxTokens,
+        temperature: 0.8,
+        operation: 'drill-question',
+        signal
+      }));
 
-      return response.choices[0]?.message?.content || this.getFallbackModelAnswer(part);
+      const parsed = questionTextSchema.safeParse(question);
+      return parsed.success ? parsed.data : this.getFallbackQuestion(3, questionNumber);
+    } catch (error) {
+      this.handleApiError(error, 'generate drill question');
+    }
+  }
+
+  async evaluateDrillResponse(criterion: CriterionKey, question: string, response: string, metrics?: DrillMetrics): Promise<DrillEvaluation> {
+    const { model, maxTokens } = this.settings('drill-evaluation');
+    try {
+      return await requestStructuredOutput(request => this.call('drill-evaluation', signal => this.provider.evaluateResponse({ ...request, signal })), {
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: buildDrillEvaluationPrompt(DRILLS[criterion], metrics)
+          },
+          {
+            role: 'user',
+            content: `Drill prompt: "${question}"\nResponse: "${this.truncate(response, 'drill-evaluation')}"`
+          }
+        ],
+        maxTokens,
+        temperature: 0.3,
+        operation: 'drill-evaluation'
+      }, drillEvaluationSchema);
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        console.error('Unusable drill evaluation output:', error.issues);
+        throw new EvaluationUnavailableError();
+      }
+      this.handleApiError(error, 'evaluate drill response');
+    }
+  }
+
+  private modelAnswerRequest(question: string, part: number, userResponse?: string): ChatRequest {
+    const { model, maxTokens } = this.settings('model-answer');
+    const questionText = this.truncate(question, 'model-answer');
+    return {
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: `You are an IELTS speaking expert. ${userResponse ? 'Improve and refine the user\'s response' : 'Generate a model answer'} for the given question that would achieve a band score of 7.0-7.5.
+
+          ${userResponse ? `
+          TASK: Take the user's response and improve it while keeping the same core content and personal details. 
+          
+          Improvements should include:
+          - Fix grammatical errors and awkward phrasing
+          - Enhance vocabulary with more sophisticated words where appropriate
+          - Improve sentence structure and flow
+          - Add natural hesitations and fillers (um, well, you know) for authenticity
+          - Maintain the user's personal information and experiences
+          - Keep the same overall message and meaning
+          - Make it sound more natural and fluent
+          
+          Do NOT change the user's personal details, job, experiences, or core message. Only improve the language quality.
+          ` : `
+          TASK: Generate a completely new model answer.
+          `}
+
+          CRITICAL: Follow these EXACT structures for each part:
+
+          **Part 1 Structure (30-40 seconds, band 7-7.5):**
+          Answer → Reason → Example
+          - Start with a direct answer to the question
+          - Provide a clear reason or explanation
+          - Give a specific example or personal detail
+          - Keep it concise but complete
+
+          **Part 2 Structure (2 minutes, band 7-7.5):**
+          Intro → Details → Feelings → Reflection
+          - Intro: Brief introduction to the topic
+          - Details: Specific information covering the bullet points
+          - Feelings: How you felt about the experience/topic
+          - Reflection: What you learned or how it affected you
+
+          **Part 3 Structure (30-50 seconds, band 7-7.5):**
+          Point → Explain → Example
+          - Point: State your main argument or opinion
+          - Explain: Elaborate on your reasoning
+          - Example: Provide a concrete example to support your point
+
+          For Part ${part}, the response should demonstrate:
+          - Natural fluency with occasional hesitation (um, well, you know)
+          - Simple vocabulary with only a few advanced words where natural
+          - Mostly simple sentences with some compound sentences
+          - Generally accurate grammar with minor natural errors
+          - Clear pronunciation and appropriate intonation
+          
+          IMPORTANT: Keep the language SIMPLE and ACCESSIBLE. Don't use too many difficult words or complex structures. Sound like a real person having a normal conversation, not like a textbook. Use everyday vocabulary that feels natural and authentic.`
+        },
+        {
+          role: 'user',
+          content: userResponse 
+            ? `Question: "${questionText}"\n\nUser's Response: "${this.truncate(userResponse, 'model-answer')}"\n\nPlease improve this response to band 7-7.5 level following the Part ${part} structure while keeping the same personal details and core content.`
+            : `Generate a band 7-7.5 model answer for this IELTS Part ${part} question: "${questionText}" following the exact Part ${part} structure.`
+        }
+      ],
+      maxTokens: part === 2 ? this.profile.longTurnModelAnswerTokens : maxTokens,
+      temperature: 0.7,
+      operation: 'model-answer'
+    };
+  }
+
+  // Improved answers are personal; only general ones are shared
+  private modelAnswerCacheKey(question: string, part: number, userResponse?: string): string | undefined {
+    return userResponse ? undefined : `model_${this.settings('model-answer').model}_${part}_general_${hashKey(question)}`;
+  }
+
+  async generateModelAnswer(question: string, part: number, userResponse?: string): Promise<string> {
+    const cacheKey = this.modelAnswerCacheKey(question, part, userResponse);
+    const cached = cacheKey ? await this.cached<string>('model-answer', cacheKey) : null;
+    if (cached) return cached;
+
+    // A general answer is a nice-to-have; improving the learner's own answer still runs, on the economy profile
+    if (!userResponse && this.budget === 'exceeded') {
+      throw new BudgetExceededError('general model answers');
+    }
+
+    try {
+      const answer = await this.call('model-answer', signal => this.provider.generateModelAnswer({
+        ...this.modelAnswerRequest(question, part, userResponse),
+        signal
+      }));
+
+      const parsed = modelAnswerTextSchema.safeParse(answer);
+      if (!parsed.success) return this.getFallbackModelAnswer(part);
+
+      if (cacheKey) await this.cache?.set(cacheKey, parsed.data, CACHE_TTL.modelAnswer);
+      return parsed.data;
+    } catch (error) {
+      this.handleApiError(error, 'generate model answer');
+    }
+  }
+
+  // Yields the answer as it is written; returns the complete answer, which replaces
+  // the streamed text with the fallback when the reply is unusable
+  async *streamModelAnswer(question: string, part: number, userResponse?: string, signal?: AbortSignal): AsyncGenerator<string, string> {
+    const cacheKey = this.modelAnswerCacheKey(question, part, userResponse);
+    const cached = cacheKey ? await this.cached<string>('model-answer', cacheKey) : null;
+    if (cached) {
+      yield cached;
+      return cached;
+    }
+
+    if (!userResponse && this.budget === 'exceeded') {
+      throw new BudgetExceededError('general model answers');
+    }
+
+    let answer = '';
+    try {
+      for await (const text of await this.openStream('model-answer', this.modelAnswerRequest(question, part, userResponse), signal)) {
+        answer += text;
+        yield text;
+      }
     } catch (error) {
       this.handleApiError(error, 'generate model answer');
     }
+
+    const parsed = modelAnswerTextSchema.safeParse(answer);
+    if (!parsed.success) return this.getFallbackModelAnswer(part);
+
+    if (cacheKey) await this.cache?.set(cacheKey, parsed.data, CACHE_TTL.modelAnswer);
+    return parsed.data;
   }
 
   async textToSpeech(text: string): Promise<ArrayBuffer> {
+    const { ttsModel: model, maxSpeechChars } = this.profile;
+    const input = maxSpeechChars ? text.slice(0, maxSpeechChars) : text;
+    const cacheKey = `tts_${model}_nova_${hashKey(input)}`;
+    const cached = await this.cached<ArrayBuffer>('tts', cacheKey);
+    if (cached) return cached;
+
     try {
-      const response = await this.client.audio.speech.create({
-        model: 'tts-1-hd', // Use HD model for better quality
+      const audio = await this.call('tts', signal => this.provider.textToSpeech({
+        model,
         voice: 'nova', // More natural female voice
-        input: text,
+        input,
         speed: 0.9,
-        response_format: 'mp3' // Better compression and quality
-      });
+        signal
+      }));
 
-      return await response.arrayBuffer();
+      await this.cache?.set(cacheKey, audio, CACHE_TTL.tts);
+      return audio;
     } catch (error) {
       this.handleApiError(error, 'convert text to speech');
     }
   }
 
-  async speechToText(audioBlob: Blob): Promise<string> {
+  async speechToText(audioBlob: Blob): Promise<Transcription> {
     try {
-      const file = new File([audioBlob], 'audio.webm', { type: 'audio/webm' });
-      
-      const response = await this.client.audio.transcriptions.create({
-        file: file,
+      const transcription = await this.call('stt', signal => this.provider.speechToText({
+        audio: audioBlob,
         model: 'whisper-1',
-        language: 'en'
-      });
-
-      return response.text;
+        language: 'en',
+        prompt: DISFLUENT_TRANSCRIPTION_PROMPT,
+        signal
+      }));
+      return transcriptionSchema.parse(transcription);
     } catch (error) {
       this.handleApiError(error, 'convert speech to text');
     }
   }
 
-  private getPart1Prompt(): string {
-    // Use random selection from part1Questions array
+  private getPart1Prompt(topic?: string): string {
+    // Use the planned topic, or a random selection from part1Questions array
     const questions = part1Questions;
     const randomIndex = Math.floor(Math.random() * questions.length);
-    const selectedQuestion = questions[randomIndex];
+    const selectedQuestion = topic ?? questions[randomIndex];
     
     // Use the question as a topic to generate similar questions
     return `Generate a Part 1 IELTS speaking question similar to: "${selectedQuestion}". Make it personal and suitable for getting to know the candidate.`;
   }
 
-  private getPart2Prompt(): string {
-    // Use random selection from part2Questions array
+  private getPart2Prompt(topic?: string): string {
+    // Use the planned cue card theme, or a random selection from part2Questions array
     const questions = part2Questions;
     const randomIndex = Math.floor(Math.random() * questions.length);
-    const selectedTopic = questions[randomIndex];
+    const selectedTopic = topic ?? questions[randomIndex];
     
     // Use the topic to generate a proper Part 2 cue card
     return `Generate a Part 2 IELTS speaking question based on: "${selectedTopic}". Include the standard format with "You should say:" and 3-4 bullet points, ending with "and explain why..."`;
   }
 
-  private getPart3Prompt(questionNumber: number, previousResponses?: string[]): string {
-    // Use random selection from part2Questions to create follow-up Part 3 questions
+  private getPart3Prompt(questionNumber: number, previousResponses?: string[], part2Topic?: string, previousQuestions?: string[], linkedQuestions?: string[]): string {
+    // Follow up the given cue card, or pick a random Part 2 topic when no cue card is in play
     const part2Topics = part2Questions;
     const randomIndex = Math.floor(Math.random() * part2Topics.length);
-    const selectedPart2Topic = part2Topics[randomIndex];
-    const context = previousResponses ? `Based on previous discussion about: ${previousResponses.join(', ')}` : '';
-    
-    // Generate Part 3 follow-up questions based on Part 2 topic
-    return `Generate a Part 3 IELTS speaking follow-up question based on this Part 2 topic: "${selectedPart2Topic}". ${context} Make it abstract, analytical, and suitable for discussion. Focus on broader themes, societal implications, comparisons, or future predictions related to the topic. The question should require critical thinking and detailed explanations.`;
+
+    return buildPart3Prompt({
+      topic: part2Topic ?? part2Topics[randomIndex],
+      questionNumber,
+      previousQuestions,
+      previousResponses,
+      linkedQuestions
+    });
   }
 
   private getFallbackQuestion(part: number, questionNumber: number): string {
@@ -315,17 +596,6 @@ export class OpenAIService {
     return questions[questionNumber % questions.length];
   }
 
-  private getFallbackEvaluation() {
-    return {
-      score: 6.0,
-      feedback: 'Your response shows good effort. Focus on expanding your ideas with more details and examples.',
-      suggestions: [
-        'Try to speak for longer periods',
-        'Use more varied vocabulary',
-        'Practice connecting your ideas smoothly'
-      ]
-    };
-  }
 
   private getFallbackModelAnswer(part: number): string {
     const fallbackAnswers = {
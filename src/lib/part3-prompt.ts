@@ -0,0 +1,41 @@
+// Part 3 is a single discussion that an examiner deepens step by step, so each
+// question builds on the cue card theme and on what has already been said.
+const PART_3_DEPTH_LADDER = [
+  'Open the discussion: ask about the theme in general terms, moving from the candidate\'s own experience to people in their country.',
+  'Ask the candidate to compare: past and present, different generations, groups of people or places.',
+  'Ask the candidate to analyse causes and consequences, or to weigh advantages against disadvantages.',
+  'Ask the candidate to evaluate a broader societal issue, such as the role of government, businesses or education.',
+  'Ask the candidate to speculate about the future or a hypothetical situation and justify their view.'
+];
+
+interface Part3PromptContext {
+  topic: string;
+  questionNumber: number;
+  previousQuestions?: string[];
+  previousResponses?: string[];
+  // Discussion questions a teacher linked to the cue card in the question bank
+  linkedQuestions?: string[];
+}
+
+export function buildPart3Prompt({ topic, questionNumber, previousQuestions, previousResponses, linkedQuestions }: Part3PromptContext): string {
+  const depth = PART_3_DEPTH_LADDER[Math.min(questionNumber, PART_3_DEPTH_LADDER.length - 1)];
+  const askedSoFar = previousQuestions?.length
+    ? `Questions already asked in this discussion (do not repeat them; move the discussion forward):\n${previousQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}`
+    : 'This is the first question of the discussion.';
+  const candidateSaid = previousResponses?.length
+    ? `What the candidate has said so far, which you may pick up on:\n${previousResponses.map(r => `- ${r}`).join('\n')}`
+    : '';
+  const suggested = linkedQuestions?.length
+    ? `Questions set for this cue card:\n${linkedQuestions.map(q => `- ${q}`).join('\n')}\nAsk the one not yet asked that best fits this step, as written or adapted to what the candidate said. Only write your own if none fits.`
+    : '';
+
+  return [
+    `Generate question ${questionNumber + 1} of an IELTS Speaking Part 3 discussion linked to this Part 2 cue card: "${topic}".`,
+    'Part 3 questions are abstract and about society in general, not about the candidate\'s own story from Part 2, but they must stay on the same theme.',
+    depth,
+    askedSoFar,
+    candidateSaid,
+    suggested,
+    'Return only the question itself.'
+  ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,46 @@
+import { MockProvider } from './mock-provider';
+import { OpenAIProvider } from './openai-provider';
+import type { AIProvider, AIProviderConfig, AIProviderName } from './types';
+
+export type * from './types';
+export { MockProvider } from './mock-provider';
+export { OpenAIProvider } from './openai-provider';
+
+// Provider selection is driven by configuration so a deployment can switch
+// backends (e.g. during a vendor outage) without touching the UI.
+export function getProviderConfig(apiKey: string): AIProviderConfig {
+  return {
+    provider: process.env.AI_PROVIDER as AIProviderName | undefined,
+    apiKey,
+    baseURL: process.env.AI_BASE_URL || undefined,
+    chatModel: process.env.AI_CHAT_MODEL || undefined,
+    mockError: process.env.AI_MOCK_ERROR || undefined
+  };
+}
+
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  switch (config.provider ?? 'openai') {
+    case 'openai':
+      return new OpenAIProvider({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        chatModel: config.chatModel,
+        onUsage: config.onUsage
+      });
+    case 'openai-compatible':
+      if (!config.baseURL) {
+        throw new Error('AI_BASE_URL is required for the openai-compatible provider');
+      }
+      return new OpenAIProvider({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        chatModel: config.chatModel,
+        name: 'openai-compatible',
+        onUsage: config.onUsage
+      });
+    case 'mock':
+      return new MockProvider({ errorMode: config.mockError, onUsage: config.onUsage });
+    default:
+      throw new Error(`Unknown AI provider: ${config.provider}`);
+  }
+}
@@ -0,0 +1,247 @@
+import type {
+  AIProvider,
+  AIProviderConfig,
+  ChatRequest,
+  ProviderUsage,
+  SpeechRequest,
+  Transcription,
+  TranscriptionRequest,
+  ValidationResult
+} from './types';
+
+export type MockErrorMode = NonNullable<AIProviderConfig['mockError']>;
+
+// Same shape as the errors thrown by the openai SDK so handleApiError maps them identically
+class MockAPIError extends Error {
+  constructor(message: string, public status?: number, public code?: string) {
+    super(message);
+    this.name = 'MockAPIError';
+  }
+}
+
+const MOCK_ERRORS: Record<MockErrorMode, () => MockAPIError> = {
+  unauthorized: () => new MockAPIError('Incorrect API key provided', 401, 'invalid_api_key'),
+  rate_limit: () => new MockAPIError('Rate limit reached for requests', 429, 'rate_limit_exceeded'),
+  insufficient_quota: () => new MockAPIError('You exceeded your current quota', undefined, 'insufficient_quota'),
+  server_error: () => new MockAPIError('The server had an error while processing your request', 500, 'server_error')
+};
+
+const MOCK_QUESTIONS: Record<number, string[]> = {
+  1: [
+    'Let\'s talk about your hometown. Where is it, and what do you like most about it?',
+    'Do you usually cook at home, or do you prefer eating out?',
+    'How do you normally spend your evenings after work or study?',
+    'Have you ever kept a pet? Why or why not?',
+    'What kind of weather do you enjoy the most?'
+  ],
+  2: [
+    'Describe a place in your country that you would recommend to visitors.\nYou should say:\n- where it is\n- how you know about it\n- what people can do there\nand explain why you would recommend it.',
+    'Describe a skill that took you a long time to learn.\nYou should say:\n- what the skill is\n- when you started learning it\n- how you learned it\nand explain why it took so long.'
+  ],
+  3: [
+    'Why do you think some places become popular with tourists while others don\'t?',
+    'How has tourism changed the way people in your country live?',
+    'Should governments limit the number of visitors to famous sites?',
+    'Do you think virtual tours will ever replace real travel?',
+    'What responsibilities do tourists have towards the places they visit?'
+  ]
+};
+
+const MOCK_EVALUATION = {
+  score: 6.5,
+  criteria: {
+    fluencyCoherence: {
+      band: 7,
+      justification: 'Spoke at length without noticeable effort and linked ideas with "because" and "also", though some points were repeated.'
+    },
+    lexicalResource: {
+      band: 6,
+      justification: 'Vocabulary was adequate for the topic ("coastal", "friendly") but relied on general words such as "good" and "nice".'
+    },
+    grammaticalRange: {
+      band: 6.5,
+      justification: 'Mix of simple and complex sentences with mostly accurate tense use; occasional errors in longer clauses.'
+    },
+    pronunciation: {
+      band: 6.5,
+      justification: 'Generally clear from the transcript; a few words were transcribed unexpectedly, suggesting unclear stress.'
+    }
+  },
+  feedback: 'You answered the question directly and kept talking without long pauses. Your ideas were linked with simple connectors, though some were repeated. Vocabulary was adequate for the topic with a few less common words, and most sentences were accurate, with occasional errors in complex structures.',
+  strengths: [
+    'Answered the question directly before adding detail',
+    'Kept speaking without long hesitations'
+  ],
+  improvements: [
+    'Extend your answers with a specific personal example',
+    'Replace repeated words such as "good" and "nice" with more precise adjectives',
+    'Practise using conditional and relative clauses accurately'
+  ]
+};
+
+const MOCK_DRILL_EVALUATION = {
+  band: 6,
+  justification: 'Kept going for most of the time, but paused to search for words and leaned on "and" and "so" to connect ideas.',
+  feedback: 'You answered without long silences and your main idea was easy to follow. A few filler words and restarts slowed you down, and the same connectors came up several times.',
+  improvements: [
+    'Plan a two-part answer (reason, then example) before you start speaking',
+    'Swap some uses of "and" for "on top of that" or "as a result"'
+  ]
+};
+
+const MOCK_MODEL_ANSWERS: Record<number, string> = {
+  1: 'Well, I\'m from a fairly small coastal town, and honestly what I like most about it is how relaxed it feels. People know each other, so you can\'t walk down the street without stopping for a chat. For example, the man who runs the bakery near my house always asks about my family.',
+  2: 'I\'d like to talk about an old fishing village on the east coast of my country, which I first heard about from a colleague. It\'s about three hours from the capital by train. Visitors can walk along the harbour, try fresh seafood straight from the boats and, um, take a short boat trip to a nearby island. What I remember most is how peaceful it felt compared with city life. I\'d recommend it because it shows a side of the country that most tourists never see, and, you know, it reminded me to slow down a bit.',
+  3: 'I think the main reason is accessibility. If a place is easy to reach and has decent hotels, people will naturally go there. On top of that, social media plays a huge role now. For instance, a single viral photo can turn a quiet beach into a crowded attraction almost overnight.'
+};
+
+const MOCK_TRANSCRIPTS = [
+  'Well, I come from a small town near the coast. It is quite quiet, but I like it because the people are friendly and there is a beautiful beach where I go walking with my family at weekends.',
+  'I think people visit some places more because they are famous on social media. Also, if the transport is good, it is easier for tourists to go there, so those places become more popular.'
+];
+
+// One MPEG-1 Layer III frame (128kbps, 44.1kHz) whose zeroed payload decodes to silence
+const SILENT_MP3_FRAME_SIZE = 417;
+const SILENT_MP3_FRAMES_PER_SECOND = 38;
+
+function createSilentMp3(seconds: number): ArrayBuffer {
+  const frameCount = Math.max(1, Math.round(seconds * SILENT_MP3_FRAMES_PER_SECOND));
+  const bytes = new Uint8Array(frameCount * SILENT_MP3_FRAME_SIZE);
+  for (let i = 0; i < frameCount; i++) {
+    bytes.set([0xff, 0xfb, 0x90, 0x64], i * SILENT_MP3_FRAME_SIZE);
+  }
+  return bytes.buffer;
+}
+
+function detectPart(request: ChatRequest): number {
+  const text = request.messages.map(m => m.content).join('\n');
+  const match = text.match(/Part\s+([123])/i);
+  return match ? Number(match[1]) : 1;
+}
+
+// Times a transcript at a steady 150 words per minute, with a short pause after each sentence
+const MOCK_SECONDS_PER_WORD = 0.4;
+const MOCK_SENTENCE_PAUSE_SECONDS = 0.8;
+
+const roundTime = (seconds: number) => Math.round(seconds * 100) / 100;
+
+function timeTranscript(text: string): Transcription {
+  const words: Transcription['words'] = [];
+  const segments: Transcription['segments'] = [];
+  let time = 0;
+  for (const sentence of text.match(/[^.!?]+[.!?]*/g) ?? []) {
+    const start = time;
+    for (const word of sentence.trim().split(/\s+/)) {
+      words.push({ word: word.replace(/[^\w'-]/g, ''), start: roundTime(time), end: roundTime(time + MOCK_SECONDS_PER_WORD) });
+      time += MOCK_SECONDS_PER_WORD;
+    }
+    segments.push({ text: sentence.trim(), start: roundTime(start), end: roundTime(time) });
+    time += MOCK_SENTENCE_PAUSE_SECONDS;
+  }
+  // The recording stops after the last word, not after a pause
+  return { text, durationSeconds: roundTime(Math.max(0, time - MOCK_SENTENCE_PAUSE_SECONDS)), words, segments };
+}
+
+// Streamed replies arrive in small pieces at a steady pace, like a real completion
+const MOCK_STREAM_CHUNK_CHARS = 12;
+const MOCK_STREAM_DELAY_MS = 20;
+
+async function* streamInChunks(content: string, signal?: AbortSignal): AsyncGenerator<string> {
+  for (let i = 0; i < content.length; i += MOCK_STREAM_CHUNK_CHARS) {
+    await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+    signal?.throwIfAborted();
+    yield content.slice(i, i + MOCK_STREAM_CHUNK_CHARS);
+  }
+}
+
+// Rough token estimate so usage and cost reporting can be tried offline
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Kept for the whole process: a provider is built for every request, so
+// per-instance counters would start every request at the first fixture
+const fixtureCalls = { questions: { 1: 0, 2: 0, 3: 0 } as Record<number, number>, transcripts: 0 };
+
+interface MockProviderOptions {
+  errorMode?: MockErrorMode;
+  onUsage?: (usage: ProviderUsage) => void;
+}
+
+// Offline, deterministic stand-in for OpenAI used in development and
+// automated tests. Responses cycle through fixed fixtures in call order across all requests.
+export class MockProvider implements AIProvider {
+  readonly name = 'mock';
+  private errorMode?: MockErrorMode;
+  private onUsage?: (usage: ProviderUsage) => void;
+
+  constructor({ errorMode, onUsage }: MockProviderOptions = {}) {
+    this.errorMode = errorMode;
+    this.onUsage = onUsage;
+  }
+
+  async validateApiKey(): Promise<ValidationResult> {
+    if (this.errorMode === 'unauthorized') {
+      return { isValid: false, error: 'Invalid API key. Please check your OpenAI API key and try again.' };
+    } else if (this.errorMode === 'rate_limit') {
+      return { isValid: false, error: 'API rate limit exceeded. Please try again later or check your OpenAI account.' };
+    } else if (this.errorMode === 'insufficient_quota') {
+      return { isValid: false, error: 'Insufficient API quota. Please check your OpenAI account billing.' };
+    }
+    return { isValid: true };
+  }
+
+  async generateQuestion(request: ChatRequest): Promise<string | null> {
+    this.throwIfFailing();
+    const part = detectPart(request);
+    const questions = MOCK_QUESTIONS[part];
+    const index = fixtureCalls.questions[part]++;
+    return this.reply(request, questions[index % questions.length]);
+  }
+
+  async evaluateResponse(request: ChatRequest): Promise<string | null> {
+    this.throwIfFailing();
+    const text = request.messages.map(m => m.content).join('\n');
+    return this.reply(request, JSON.stringify(/criterion drill/i.test(text) ? MOCK_DRILL_EVALUATION : MOCK_EVALUATION));
+  }
+
+  async generateModelAnswer(request: ChatRequest): Promise<string | null> {
+    this.throwIfFailing();
+    return this.reply(request, MOCK_MODEL_ANSWERS[detectPart(request)]);
+  }
+
+  async streamChat(request: ChatRequest): Promise<AsyncIterable<string>> {
+    const content = request.operation === 'model-answer'
+      ? await this.generateModelAnswer(request)
+      : await this.evaluateResponse(request);
+    return streamInChunks(content ?? '', request.signal);
+  }
+
+  async textToSpeech({ model, input }: SpeechRequest): Promise<ArrayBuffer> {
+    this.throwIfFailing();
+    this.onUsage?.({ operation: 'tts', model, characters: input.length });
+    // Roughly match spoken length so playback UI behaves realistically
+    return createSilentMp3(Math.min(10, Math.max(1, input.split(/\s+/).length / 3)));
+  }
+
+  async speechToText({ model }: TranscriptionRequest): Promise<Transcription> {
+    this.throwIfFailing();
+    const transcription = timeTranscript(MOCK_TRANSCRIPTS[fixtureCalls.transcripts++ % MOCK_TRANSCRIPTS.length]);
+    this.onUsage?.({ operation: 'stt', model, audioSeconds: Math.round(transcription.durationSeconds ?? 0) });
+    return transcription;
+  }
+
+  private reply(request: ChatRequest, content: string): string {
+    this.onUsage?.({
+      operation: request.operation,
+      model: request.model,
+      inputTokens: estimateTokens(request.messages.map(m => m.content).join('\n')),
+      outputTokens: estimateTokens(content)
+    });
+    return content;
+  }
+
+  private throwIfFailing() {
+    if (this.errorMode) {
+      throw MOCK_ERRORS[this.errorMode]();
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import OpenAI from 'openai';
+import type {
+  AIProvider,
+  ChatRequest,
+  ProviderUsage,
+  SpeechRequest,
+  Transcription,
+  TranscriptionRequest,
+  ValidationResult
+} from './types';
+
+interface OpenAIProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+  chatModel?: string;
+  name?: string;
+  onUsage?: (usage: ProviderUsage) => void;
+}
+
+// Talks to OpenAI, or to any server exposing the same REST API (e.g. a local
+// vLLM / Ollama / LM Studio instance) when a baseURL is supplied.
+export class OpenAIProvider implements AIProvider {
+  readonly name: string;
+  private client: OpenAI;
+  private chatModel?: string;
+  private onUsage?: (usage: ProviderUsage) => void;
+
+  constructor({ apiKey, baseURL, chatModel, name = 'openai', onUsage }: OpenAIProviderOptions) {
+    this.name = name;
+    this.chatModel = chatModel;
+    this.onUsage = onUsage;
+    this.client = new OpenAI({
+      apiKey,
+      baseURL,
+      // OpenAIService retries with its own backoff and circuit breaker
+      maxRetries: 0
+    });
+  }
+
+  async validateApiKey(): Promise<ValidationResult> {
+    try {
+      // Make a simple request to test the API key
+      await this.client.models.list();
+      return { isValid: true };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      console.error('API key validation failed:', error);
+
+      if (error?.status === 401) {
+        return {
+          isValid: false,
+          error: 'Invalid API key. Please check your OpenAI API key and try again.'
+        };
+      } else if (error?.status === 429) {
+        return {
+          isValid: false,
+          error: 'API rate limit exceeded. Please try again later or check your OpenAI account.'
+        };
+      } else if (error?.status === 403) {
+        return {
+          isValid: false,
+          error: 'API access forbidden. Please ensure your API key has the required permissions.'
+        };
+      } else if (error?.code === 'insufficient_quota') {
+        return {
+          isValid: false,
+          error: 'Insufficient API quota. Please check your OpenAI account billing.'
+        };
+      } else {
+        return {
+          isValid: false,
+          error: 'Failed to connect to OpenAI. Please check your internet connection and try again.'
+        };
+      }
+    }
+  }
+
+  generateQuestion(request: ChatRequest): Promise<string | null> {
+    return this.complete(request);
+  }
+
+  evaluateResponse(request: ChatRequest): Promise<string | null> {
+    return this.complete(request);
+  }
+
+  generateModelAnswer(request: ChatRequest): Promise<string | null> {
+    return this.complete(request);
+  }
+
+  async streamChat({ model, messages, maxTokens, temperature, operation, signal }: ChatRequest): Promise<AsyncIterable<string>> {
+    const stream = await this.client.chat.completions.create({
+      model: this.chatModel || model,
+      messages,
+      max_tokens: maxTokens,
+      temperature,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal });
+
+    return this.readStream(stream, operation, this.chatModel || model);
+  }
+
+  async textToSpeech({ model, voice, input, speed, signal }: SpeechRequest): Promise<ArrayBuffer> {
+    const response = await this.client.audio.speech.create({
+      model,
+      voice,
+      input,
+      speed,
+      response_format: 'mp3' // Better compression and quality
+    }, { signal });
+
+    this.onUsage?.({ operation: 'tts', model, characters: input.length });
+    return await response.arrayBuffer();
+  }
+
+  async speechToText({ audio, model, language, prompt, signal }: TranscriptionRequest): Promise<Transcription> {
+    const file = new File([audio], 'audio.webm', { type: 'audio/webm' });
+
+    // The verbose format adds word and segment timings; only whisper-1 supports it
+    const response = await this.client.audio.transcriptions.create({
+      file,
+      model,
+      language,
+      prompt,
+      response_format: 'verbose_json',
+      timestamp_granularities: ['word', 'segment']
+    }, { signal });
+
+    this.onUsage?.({
+      operation: 'stt',
+      model,
+      audioSeconds: response.usage?.seconds ?? response.duration
+    });
+    return {
+      text: response.text,
+      durationSeconds: response.duration,
+      words: response.words?.map(({ word, start, end }) => ({ word, start, end })) ?? [],
+      segments: response.segments?.map(({ text, start, end }) => ({ text: text.trim(), start, end })) ?? []
+    };
+  }
+
+  private async *readStream(
+    stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+    operation: ChatRequest['operation'],
+    model: string
+  ): AsyncGenerator<string> {
+    let outputChars = 0;
+    let reported = false;
+    try {
+      for await (const chunk of stream) {
+        // Usage arrives in a final chunk with no choices
+        if (chunk.usage) {
+          this.onUsage?.({
+            operation,
+            model,
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens
+          });
+          reported = true;
+        }
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) {
+          outputChars += text.length;
+          yield text;
+        }
+      }
+    } finally {
+      // A cancelled stream never gets its usage chunk, so estimate what was written
+      if (!reported) {
+        this.onUsage?.({ operation, model, outputTokens: Math.ceil(outputChars / 4) });
+      }
+    }
+  }
+
+  private async complete({ model, messages, maxTokens, temperature, operation, signal }: ChatRequest): Promise<string | null> {
+    const response = await this.client.chat.completions.create({
+      model: this.chatModel || model,
+      messages,
+      max_tokens: maxTokens,
+      temperature
+    }, { signal });
+
+    this.onUsage?.({
+      operation,
+      model: this.chatModel || model,
+      inputTokens: response.usage?.prompt_tokens,
+      outputTokens: response.usage?.completion_tokens
+    });
+    return response.choices[0]?.message?.content ?? null;
+  }
+}
@@ -0,0 +1,110 @@
+// Provider-agnostic request/response shapes shared by every AI backend.
+// The service classes own prompts, caching and fallbacks; providers only
+// move these requests over the wire.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// What a call was for, so usage can be reported per feature
+export type UsageOperation =
+  | 'question'
+  | 'follow-up'
+  | 'evaluation'
+  | 'drill-question'
+  | 'drill-evaluation'
+  | 'model-answer'
+  | 'tts'
+  | 'stt';
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  operation?: UsageOperation;
+  // Aborted when the call times out or the learner cancels it
+  signal?: AbortSignal;
+}
+
+export interface SpeechRequest {
+  model: string;
+  voice: string;
+  input: string;
+  speed: number;
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  model: string;
+  language: string;
+  // Style example for the transcriber, e.g. to keep hesitations in the text
+  prompt?: string;
+  signal?: AbortSignal;
+}
+
+// Timings are in seconds from the start of the recording
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptTimings {
+  durationSeconds?: number;
+  // Empty when the backend does not report timings
+  words: TranscriptWord[];
+  segments: TranscriptSegment[];
+}
+
+export interface Transcription extends TranscriptTimings {
+  text: string;
+}
+
+// Reported by a provider after every billable call
+export interface ProviderUsage {
+  operation?: UsageOperation;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  characters?: number; // text to speech
+  audioSeconds?: number; // speech to text
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  error?: string;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  validateApiKey(): Promise<ValidationResult>;
+  generateQuestion(request: ChatRequest): Promise<string | null>;
+  evaluateResponse(request: ChatRequest): Promise<string | null>;
+  generateModelAnswer(request: ChatRequest): Promise<string | null>;
+  // Resolves once the reply has started; the iterable yields it a piece at a time
+  streamChat(request: ChatRequest): Promise<AsyncIterable<string>>;
+  textToSpeech(request: SpeechRequest): Promise<ArrayBuffer>;
+  speechToText(request: TranscriptionRequest): Promise<Transcription>;
+}
+
+export type AIProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+export interface AIProviderConfig {
+  provider?: AIProviderName;
+  apiKey: string;
+  baseURL?: string;
+  // Forces every chat call onto one model, for servers that don't host the OpenAI catalogue
+  chatModel?: string;
+  // Mock provider only: fail every call the way the real API would
+  mockError?: 'unauthorized' | 'rate_limit' | 'insufficient_quota' | 'server_error';
+  onUsage?: (usage: ProviderUsage) => void;
+}
@@ -0,0 +1,146 @@
+import { Question, IQuestion } from '@/lib/models/Question'
+import type { QuestionBankEntry } from '@/lib/schemas'
+import type { ExportableQuestion, InvalidRow, ParsedQuestionFile } from '@/lib/question-io'
+
+export function serializeQuestion(question: IQuestion) {
+  return {
+    id: question._id,
+    part: question.part,
+    topic: question.topic,
+    text: question.text,
+    bulletPoints: question.bulletPoints,
+    linkedPart3Questions: question.linkedPart3Questions,
+    difficulty: question.difficulty,
+    status: question.status,
+    seasonTags: question.seasonTags,
+    retiredAt: question.retiredAt,
+    createdAt: question.createdAt,
+    updatedAt: question.updatedAt
+  }
+}
+
+type ComparableField = 'topic' | 'bulletPoints' | 'linkedPart3Questions' | 'difficulty' | 'seasonTags' | 'status'
+const COMPARED_FIELDS: ComparableField[] = ['topic', 'bulletPoints', 'linkedPart3Questions', 'difficulty', 'seasonTags', 'status']
+const SCALAR_FIELDS: ComparableField[] = ['topic', 'difficulty', 'status']
+
+export interface FieldChange {
+  from: unknown
+  to: unknown
+}
+
+// What an import would do, row by row; a dry run returns this without writing
+export interface ImportPlan {
+  create: Array<{ row: number, entry: QuestionBankEntry }>
+  update: Array<{ row: number, id: string, entry: QuestionBankEntry, changes: Partial<Record<ComparableField, FieldChange>> }>
+  unchanged: Array<{ row: number, id: string, part: number, text: string }>
+  duplicatesInFile: Array<{ row: number, firstRow: number, part: number, text: string }>
+  invalid: InvalidRow[]
+}
+
+// Questions are identified by part and exact wording, matching the unique index
+const questionKey = (part: number, text: string) => `${part}:${text}`
+
+export async function planImport(parsed: ParsedQuestionFile): Promise<ImportPlan> {
+  const plan: ImportPlan = { create: [], update: [], unchanged: [], duplicatesInFile: [], invalid: parsed.invalid }
+  if (parsed.entries.length === 0) return plan
+
+  const existing: IQuestion[] = await Question.find({
+    $or: parsed.entries.map(({ entry }) => ({ part: entry.part, text: entry.text }))
+  })
+  const existingByKey = new Map(existing.map(q => [questionKey(q.part, q.text), q]))
+  const firstRowByKey = new Map<string, number>()
+
+  for (const { row, entry } of parsed.entries) {
+    const key = questionKey(entry.part, entry.text)
+    const firstRow = firstRowByKey.get(key)
+    if (firstRow !== undefined) {
+      plan.duplicatesInFile.push({ row, firstRow, part: entry.part, text: entry.text })
+      continue
+    }
+    firstRowByKey.set(key, row)
+
+    const current = existingByKey.get(key)
+    if (!current) {
+      plan.create.push({ row, entry })
+      continue
+    }
+
+    const changes: Partial<Record<ComparableField, FieldChange>> = {}
+    for (const field of COMPARED_FIELDS) {
+      // Rows without a status keep the current one
+      if (entry[field] === undefined) continue
+      const from = SCALAR_FIELDS.includes(field) ? current[field] : [...current[field] as string[]]
+      if (JSON.stringify(from) !== JSON.stringify(entry[field])) {
+        changes[field] = { from, to: entry[field] }
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      plan.update.push({ row, id: current._id.toString(), entry, changes })
+    } else {
+      plan.unchanged.push({ row, id: current._id.toString(), part: entry.part, text: entry.text })
+    }
+  }
+
+  return plan
+}
+
+// Rows another import created between planning and writing; the unique index rejects them
+function skippedDuplicates(error: unknown, create: ImportPlan['create']) {
+  const writeErrors = (error as { writeErrors?: Array<{ index: number, code: number }> })?.writeErrors
+  if (!writeErrors || writeErrors.length === 0 || writeErrors.some(({ code }) => code !== 11000)) throw error
+
+  return writeErrors.map(({ index }) => ({ row: create[index].row, part: create[index].entry.part, text: create[index].entry.text }))
+}
+
+export async function applyImport(plan: ImportPlan, userId: string) {
+  let skipped: Array<{ row: number, part: number, text: string }> = []
+
+  if (plan.create.length > 0) {
+    try {
+      // Unordered, so one row created meanwhile does not stop the rest
+      await Question.insertMany(plan.create.map(({ entry }) => ({
+        ...entry,
+        retiredAt: entry.status === 'retired' ? new Date() : undefined,
+        createdBy: userId,
+        updatedBy: userId
+      })), { ordered: false })
+    } catch (error) {
+      skipped = skippedDuplicates(error, plan.create)
+    }
+  }
+
+  if (plan.update.length > 0) {
+    await Question.bulkWrite(plan.update.map(({ id, entry, changes }) => {
+      const retiring = changes.status && entry.status === 'retired'
+      return {
+        updateOne: {
+          filter: { _id: id },
+          update: {
+            $set: {
+              ...Object.fromEntries(Object.keys(changes).map(field => [field, entry[field as ComparableField]])),
+              ...(retiring ? { retiredAt: new Date() } : {}),
+              updatedBy: userId
+            },
+            ...(changes.status && !retiring ? { $unset: { retiredAt: '' } } : {})
+          }
+        }
+      }
+    }))
+  }
+
+  return { created: plan.create.length - skipped.length, updated: plan.update.length, skipped }
+}
+
+export function toExportable(question: IQuestion): ExportableQuestion {
+  return {
+    part: question.part,
+    topic: question.topic,
+    text: question.text,
+    bulletPoints: [...question.bulletPoints],
+    linkedPart3Questions: [...question.linkedPart3Questions],
+    difficulty: question.difficulty,
+    seasonTags: [...question.seasonTags],
+    status: question.status
+  }
+}
@@ -0,0 +1,234 @@
+import { z } from 'zod'
+import { questionBankEntrySchema, type QuestionBankEntry } from '@/lib/schemas'
+
+// Reading and writing question banks as JSON or CSV. JSON accepts the entry
+// objects produced by the export, or the flat string arrays in src/data.
+
+export type QuestionFileFormat = 'json' | 'csv'
+
+export interface InvalidRow {
+  row: number // 1-based; for CSV the line the row starts on, counting the header as line 1
+  message: string
+}
+
+export interface ParsedQuestionFile {
+  entries: Array<{ row: number, entry: QuestionBankEntry }>
+  invalid: InvalidRow[]
+}
+
+export const CSV_COLUMNS = [
+  'part',
+  'topic',
+  'text',
+  'bulletPoints',
+  'linkedPart3Questions',
+  'difficulty',
+  'seasonTags',
+  'status'
+] as const
+
+// List cells hold several values separated by this character
+const LIST_SEPARATOR = '|'
+
+export interface CsvRow {
+  line: number // 1-based line the row starts on, as a spreadsheet numbers it
+  cells: string[]
+}
+
+export function parseCsv(content: string): CsvRow[] {
+  const rows: CsvRow[] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  let line = 1
+  let rowLine = 1
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        // Quoted cells may span lines
+        if (char === '\n' || (char === '\r' && content[i + 1] !== '\n')) line++
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push({ line: rowLine, cells: row })
+      row = []
+      cell = ''
+      line++
+      rowLine = line
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push({ line: rowLine, cells: row })
+  }
+
+  // Spreadsheet exports often end with blank lines
+  return rows.filter(r => r.cells.some(value => value.trim() !== ''))
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// A leading apostrophe makes a spreadsheet show the cell as text; the import removes it again
+function escapeCsvCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+function unescapeCsvCell(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.errors
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ')
+}
+
+function splitList(value: string | undefined): string[] {
+  if (!value) return []
+  return value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean)
+}
+
+// Legacy src/data files are plain strings: Part 1 topic names and Part 2 cue card lines
+function fromLegacyString(value: string, part: 1 | 2 | 3) {
+  const topic = value.trim()
+  return {
+    part,
+    topic,
+    text: part === 1 ? `Let's talk about ${topic.toLowerCase()}.` : topic
+  }
+}
+
+function parseJson(content: string, defaultPart?: 1 | 2 | 3): ParsedQuestionFile {
+  const result: ParsedQuestionFile = { entries: [], invalid: [] }
+
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    result.invalid.push({ row: 0, message: 'File is not valid JSON' })
+    return result
+  }
+
+  if (!Array.isArray(data)) {
+    result.invalid.push({ row: 0, message: 'Expected a JSON array of questions' })
+    return result
+  }
+
+  data.forEach((item, index) => {
+    const row = index + 1
+    if (typeof item === 'string' && !defaultPart) {
+      result.invalid.push({ row, message: 'Plain string entries need a part to be chosen for the import' })
+      return
+    }
+
+    const raw = typeof item === 'string' && defaultPart ? fromLegacyString(item, defaultPart) : item
+    const parsed = questionBankEntrySchema.safeParse(raw)
+    if (parsed.success) {
+      result.entries.push({ row, entry: parsed.data })
+    } else {
+      result.invalid.push({ row, message: formatIssues(parsed.error) })
+    }
+  })
+
+  return result
+}
+
+function parseCsvFile(content: string, defaultPart?: 1 | 2 | 3): ParsedQuestionFile {
+  const result: ParsedQuestionFile = { entries: [], invalid: [] }
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''))
+
+  if (!header) {
+    result.invalid.push({ row: 0, message: 'CSV file is empty' })
+    return result
+  }
+
+  const columns = header.cells.map(name => name.trim())
+  const missing = ['topic', 'text'].filter(name => !columns.includes(name))
+  if (!columns.includes('part') && !defaultPart) missing.push('part')
+  if (missing.length > 0) {
+    result.invalid.push({ row: header.line, message: `Missing column(s): ${missing.join(', ')}` })
+    return result
+  }
+
+  rows.forEach(({ line: row, cells }) => {
+    const value = (name: string) => {
+      const column = columns.indexOf(name)
+      const cell = column === -1 ? undefined : cells[column]?.trim()
+      return cell === undefined ? undefined : unescapeCsvCell(cell)
+    }
+
+    const parsed = questionBankEntrySchema.safeParse({
+      part: value('part') ? Number(value('part')) : defaultPart,
+      topic: value('topic'),
+      text: value('text'),
+      bulletPoints: splitList(value('bulletPoints')),
+      linkedPart3Questions: splitList(value('linkedPart3Questions')),
+      difficulty: value('difficulty') || undefined,
+      seasonTags: splitList(value('seasonTags')),
+      status: value('status') || undefined
+    })
+
+    if (parsed.success) {
+      result.entries.push({ row, entry: parsed.data })
+    } else {
+      result.invalid.push({ row, message: formatIssues(parsed.error) })
+    }
+  })
+
+  return result
+}
+
+export function parseQuestionFile(format: QuestionFileFormat, content: string, defaultPart?: 1 | 2 | 3): ParsedQuestionFile {
+  return format === 'csv' ? parseCsvFile(content, defaultPart) : parseJson(content, defaultPart)
+}
+
+export interface ExportableQuestion extends QuestionBankEntry {
+  status: NonNullable<QuestionBankEntry['status']>
+}
+
+export function serializeQuestionFile(format: QuestionFileFormat, questions: ExportableQuestion[]): string {
+  if (format === 'json') {
+    return JSON.stringify(questions, null, 2)
+  }
+
+  return toCsv([
+    [...CSV_COLUMNS],
+    ...questions.map(question => [
+      String(question.part),
+      question.topic,
+      question.text,
+      question.bulletPoints.join(LIST_SEPARATOR),
+      question.linkedPart3Questions.join(LIST_SEPARATOR),
+      question.difficulty,
+      question.seasonTags.join(LIST_SEPARATOR),
+      question.status
+    ])
+  ])
+}
@@ -0,0 +1,172 @@
+// Retries, timeouts and a circuit breaker for calls to an AI provider. Only
+// transient failures (rate limits, server errors, dropped connections and
+// timeouts) are retried; anything else is the caller's problem to report.
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per attempt; the signal passed to the call is aborted when it runs out
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 30000
+};
+
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Thrown while the circuit is open, and when a transient failure outlasts every retry
+export class AIUnavailableError extends Error {
+  constructor(public retryAfterSeconds: number) {
+    super(`AI temporarily unavailable. Please try again in ${retryAfterSeconds} seconds.`);
+    this.name = 'AIUnavailableError';
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function isTransientError(error: any): boolean {
+  if (error instanceof TimeoutError) return true;
+  // Out of credit is a 429 too, but waiting will not fix it
+  if (error?.code === 'insufficient_quota') return false;
+  if (error?.status === 429 || error?.status === 408 || error?.status >= 500) return true;
+  // The openai SDK reports dropped connections without a status
+  return error?.name === 'APIConnectionError' || error?.name === 'APIConnectionTimeoutError';
+}
+
+// Honours Retry-After (seconds or an HTTP date) and OpenAI's retry-after-ms
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function getRetryAfterMs(error: any): number | undefined {
+  const headers = error?.headers;
+  if (!headers || typeof headers.get !== 'function') return undefined;
+
+  const milliseconds = parseFloat(headers.get('retry-after-ms') ?? '');
+  if (!Number.isNaN(milliseconds)) return milliseconds;
+
+  const retryAfter = headers.get('retry-after');
+  if (!retryAfter) return undefined;
+  const seconds = parseFloat(retryAfter);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Full jitter: a random delay up to the exponential cap spreads out retries from many users
+export function backoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function withTimeout<T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([call(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function withRetry<T>(call: (signal: AbortSignal) => Promise<T>, options: RetryOptions = DEFAULT_RETRY): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(call, options.timeoutMs);
+    } catch (error) {
+      if (attempt >= options.retries || !isTransientError(error)) throw error;
+
+      // A Retry-After longer than our own cap means the caller is better off failing now
+      const retryAfter = getRetryAfterMs(error);
+      if (retryAfter !== undefined && retryAfter > options.maxDelayMs) throw error;
+      await sleep(retryAfter ?? backoffDelay(attempt, options));
+    }
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Opens after several calls in a row fail transiently, so learners see a clear
+// "unavailable" state instead of waiting through retries that cannot succeed.
+// After the cooldown one trial call is let through; its result closes or reopens the circuit.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+
+  constructor(private failureThreshold = 3, private cooldownMs = 30000) {}
+
+  async execute<T>(call: () => Promise<T>): Promise<T> {
+    if (this.state === 'open') {
+      const remaining = this.openedAt + this.cooldownMs - Date.now();
+      if (remaining > 0) throw new AIUnavailableError(Math.ceil(remaining / 1000));
+      this.state = 'half-open';
+    } else if (this.state === 'half-open') {
+      // The trial call is still running
+      throw new AIUnavailableError(Math.ceil(this.cooldownMs / 1000));
+    }
+
+    try {
+      const result = await call();
+      this.state = 'closed';
+      this.failures = 0;
+      return result;
+    } catch (error) {
+      if (isTransientError(error)) {
+        this.failures++;
+        if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+          this.state = 'open';
+          this.openedAt = Date.now();
+        }
+      } else if (this.state === 'half-open') {
+        // The provider answered, so it is reachable again
+        this.state = 'closed';
+        this.failures = 0;
+      }
+      throw error;
+    }
+  }
+}
+
+// Keys held at once; past this the least recently used key's breakers are dropped
+const MAX_BREAKER_KEYS = 500;
+
+// Breakers by key, then by provider, most recently used key last
+const breakers = new Map<string, Map<string, CircuitBreaker>>();
+
+// One breaker per provider and key: a rate-limited personal key should not cut
+// off learners on the organisation key
+export function getCircuitBreaker(provider: string, keyId: string): CircuitBreaker {
+  const byProvider = breakers.get(keyId) ?? new Map<string, CircuitBreaker>();
+  breakers.delete(keyId);
+  breakers.set(keyId, byProvider);
+  if (breakers.size > MAX_BREAKER_KEYS) {
+    breakers.delete(breakers.keys().next().value!);
+  }
+
+  let breaker = byProvider.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    byProvider.set(provider, breaker);
+  }
+  return breaker;
+}
+
+// Forgets a key that will not be used again, such as one revoked or rotated out
+export function removeCircuitBreakers(keyId: string): void {
+  breakers.delete(keyId);
+}
@@ -0,0 +1,178 @@
+import { z } from 'zod'
+
+// Zod schemas shared by the route handlers and the AI layer, so a payload
+// that passes the AI parser is guaranteed to pass the API validation too.
+
+export const bandScoreSchema = z.number().min(1).max(9)
+
+// AI-produced bands must land on whole or half bands, like real IELTS scores
+export const halfBandSchema = bandScoreSchema.refine(
+  band => Number.isInteger(band * 2),
+  'Band scores must be whole or half bands'
+)
+
+export const criteriaSchema = z.object({
+  fluencyCoherence: bandScoreSchema,
+  lexicalResource: bandScoreSchema,
+  grammaticalRange: bandScoreSchema,
+  pronunciation: bandScoreSchema
+})
+
+export const justificationsSchema = z.object({
+  fluencyCoherence: z.string(),
+  lexicalResource: z.string(),
+  grammaticalRange: z.string(),
+  pronunciation: z.string()
+})
+
+const criterionScoreSchema = z.object({
+  band: halfBandSchema,
+  justification: z.string().min(1, 'Justification is required')
+})
+
+// What the evaluator must return
+export const evaluationSchema = z.object({
+  score: halfBandSchema,
+  criteria: z.object({
+    fluencyCoherence: criterionScoreSchema,
+    lexicalResource: criterionScoreSchema,
+    grammaticalRange: criterionScoreSchema,
+    pronunciation: criterionScoreSchema
+  }),
+  feedback: z.string().min(1, 'Feedback is required'),
+  strengths: z.array(z.string()).default([]),
+  improvements: z.array(z.string()).default([])
+})
+
+// What is stored in UserHistory for one evaluated answer
+export const historyEvaluationSchema = z.object({
+  bandScore: bandScoreSchema,
+  criteria: criteriaSchema,
+  justifications: justificationsSchema.optional(),
+  feedback: z.string(),
+  strengths: z.array(z.string()),
+  improvements: z.array(z.string())
+})
+
+export const questionTextSchema = z.string().trim().min(5, 'Question is too short').max(1500, 'Question is too long')
+
+export const modelAnswerTextSchema = z.string().trim().min(20, 'Model answer is too short')
+
+// Word and segment timings in seconds, kept next to an answer
+export const transcriptTimingsSchema = z.object({
+  durationSeconds: z.number().min(0).optional(),
+  words: z.array(z.object({
+    word: z.string(),
+    start: z.number().min(0),
+    end: z.number().min(0)
+  })).max(5000).default([]),
+  segments: z.array(z.object({
+    text: z.string(),
+    start: z.number().min(0),
+    end: z.number().min(0)
+  })).max(1000).default([])
+})
+
+export const transcriptionSchema = transcriptTimingsSchema.extend({
+  text: z.string().trim()
+})
+
+export const criterionKeySchema = z.enum(['fluencyCoherence', 'lexicalResource', 'grammaticalRange', 'pronunciation'])
+
+// What the evaluator must return for a single-criterion drill
+export const drillEvaluationSchema = z.object({
+  band: halfBandSchema,
+  justification: z.string().min(1, 'Justification is required'),
+  feedback: z.string().min(1, 'Feedback is required'),
+  improvements: z.array(z.string()).default([])
+})
+
+// Measured locally from the timed transcript, see src/lib/fluency.ts
+export const fluencyMetricsSchema = z.object({
+  wordCount: z.number().int().min(0),
+  speakingSeconds: z.number().min(0),
+  wordsPerMinute: z.number().min(0),
+  longPauses: z.number().int().min(0).optional(),
+  longestPauseSeconds: z.number().min(0).optional(),
+  fillerWords: z.number().int().min(0),
+  fillersPer100Words: z.number().min(0),
+  selfCorrections: z.number().int().min(0),
+  repetitions: z.number().int().min(0)
+})
+
+const percentageSchema = z.number().min(0).max(100)
+
+// Measured locally from the transcript, see src/lib/lexical.ts
+export const lexicalProfileSchema = z.object({
+  tokenCount: z.number().int().min(0),
+  typeCount: z.number().int().min(0),
+  typeTokenRatio: z.number().min(0).max(1),
+  mtld: z.number().min(0).optional(),
+  cefrShare: z.object({
+    A1: percentageSchema,
+    A2: percentageSchema,
+    B1: percentageSchema,
+    B2: percentageSchema,
+    C1: percentageSchema,
+    C2: percentageSchema,
+    unlisted: percentageSchema
+  }),
+  advancedWords: z.array(z.string().max(50)).max(20),
+  overusedWords: z.array(z.object({
+    word: z.string().max(50),
+    count: z.number().int().min(1)
+  })).max(20),
+  collocations: z.array(z.string().max(100)).max(50),
+  idioms: z.array(z.string().max(100)).max(50)
+})
+
+export const drillMetricsSchema = z.object({
+  wordCount: z.number().int().min(0),
+  fillerWords: z.number().int().min(0),
+  wordsPerMinute: z.number().min(0),
+  durationSeconds: z.number().min(0)
+})
+
+// What is stored in UserHistory for one drill answer
+export const drillResultSchema = z.object({
+  criterion: criterionKeySchema,
+  band: bandScoreSchema,
+  justification: z.string(),
+  feedback: z.string(),
+  improvements: z.array(z.string()).default([]),
+  metrics: drillMetricsSchema.optional()
+})
+
+// Question bank entries as teachers author them
+export const questionBankEntrySchema = z.object({
+  part: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+  topic: z.string().trim().min(1, 'Topic is required').max(200),
+  text: z.string().trim().min(5, 'Question text is required').max(1500),
+  bulletPoints: z.array(z.string().trim().min(1)).max(6).default([]),
+  linkedPart3Questions: z.array(z.string().trim().min(5)).max(10).default([]),
+  difficulty: z.enum(['easy', 'medium', 'hard']).default('medium'),
+  seasonTags: z.array(z.string().trim().toLowerCase().min(1)).default([]),
+  // Left as it is when absent, so a file without statuses never restores retired questions
+  status: z.enum(['active', 'retired']).optional()
+})
+
+export type QuestionBankEntry = z.infer<typeof questionBankEntrySchema>
+
+// A bank question as a test plan carries it to the examiner
+export const bankQuestionSchema = questionBankEntrySchema.pick({ text: true, bulletPoints: true, linkedPart3Questions: true })
+
+// Filters shared by the question bank list and export
+export const questionFilterSchema = z.object({
+  part: z.coerce.number().int().min(1).max(3).optional(),
+  status: z.enum(['active', 'retired']).optional(),
+  topic: z.string().trim().min(1).optional(),
+  tag: z.string().trim().toLowerCase().min(1).optional()
+})
+
+// Spend caps in USD; null removes a cap
+const spendLimitSchema = z.number().min(0.01, 'Limit must be at least $0.01').max(10000).nullable()
+
+export const spendLimitsSchema = z.object({
+  dailyUsd: spendLimitSchema,
+  monthlyUsd: spendLimitSchema
+})
@@ -0,0 +1,82 @@
+import type { CriterionKey, Evaluation } from '@/lib/evaluation'
+
+export type CriteriaBands = Record<CriterionKey, number>
+
+export interface OverallScore {
+  bandScore: number
+  criteria: CriteriaBands
+}
+
+// Mongoose loads a question saved without an evaluation as { criteria: {} },
+// so stored criteria cannot be assumed complete
+interface ScoredQuestion {
+  part?: number
+  evaluation?: {
+    criteria?: Partial<CriteriaBands>
+  }
+}
+
+const CRITERION_KEYS: CriterionKey[] = ['fluencyCoherence', 'lexicalResource', 'grammaticalRange', 'pronunciation']
+
+/**
+ * Official IELTS rounding: an average ending in .25 rounds up to the next
+ * half band and one ending in .75 rounds up to the next whole band, while
+ * anything below those thresholds rounds down.
+ */
+export function roundToBand(score: number): number {
+  // Work in quarter bands to avoid floating point noise (e.g. 6.2499999)
+  const quarters = Math.round(score * 400) / 100
+  const whole = Math.floor(quarters / 4)
+  const remainder = quarters - whole * 4
+
+  if (remainder >= 3) return whole + 1
+  if (remainder >= 1) return whole + 0.5
+  return whole
+}
+
+export function overallBand(criteria: CriteriaBands): number {
+  const total = CRITERION_KEYS.reduce((sum, key) => sum + criteria[key], 0)
+  return roundToBand(total / CRITERION_KEYS.length)
+}
+
+// Replaces the model's own headline score with the officially rounded mean
+export function withOverallBand(evaluation: Evaluation): Evaluation {
+  const criteria = Object.fromEntries(
+    CRITERION_KEYS.map(key => [key, evaluation.criteria[key].band])
+  ) as CriteriaBands
+
+  return { ...evaluation, score: overallBand(criteria) }
+}
+
+function isFullyScored(criteria?: Partial<CriteriaBands>): criteria is CriteriaBands {
+  return CRITERION_KEYS.every(key => typeof criteria?.[key] === 'number' && !Number.isNaN(criteria[key]))
+}
+
+// Averages each criterion across every question scored on all four, then derives the overall band
+export function aggregateScores(questions: ScoredQuestion[]): OverallScore | undefined {
+  const evaluated = questions.map(q => q.evaluation?.criteria).filter(isFullyScored)
+  if (evaluated.length === 0) return undefined
+
+  const criteria = Object.fromEntries(
+    CRITERION_KEYS.map(key => {
+      const total = evaluated.reduce((sum, bands) => sum + bands[key], 0)
+      return [key, roundToBand(total / evaluated.length)]
+    })
+  ) as CriteriaBands
+
+  return { bandScore: overallBand(criteria), criteria }
+}
+
+export function aggregateScoresByPart(
+  questions: ScoredQuestion[],
+  defaultPart?: number
+): Partial<Record<1 | 2 | 3, OverallScore>> {
+  const byPart: Partial<Record<1 | 2 | 3, OverallScore>> = {}
+
+  for (const part of [1, 2, 3] as const) {
+    const score = aggregateScores(questions.filter(q => (q.part ?? defaultPart) === part))
+    if (score) byPart[part] = score
+  }
+
+  return byPart
+}
@@ -0,0 +1,95 @@
+import { getTopicAttempts, type TopicAttempt, type TopicPart } from '@/lib/topic-history'
+
+// Review scheduling in the spirit of SM-2: a weak score brings a topic back the
+// next day, and each solid or improving attempt pushes the next review further out.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Below this band a topic is treated as not yet learnt
+const PASSING_BAND = 6
+const STRONG_BAND = 7
+
+const FIRST_INTERVAL_DAYS = { passing: 2, strong: 4 }
+const GROWTH = { passing: 1.8, strong: 2.5 }
+const IMPROVEMENT_BONUS = 1.2
+const MAX_INTERVAL_DAYS = 60
+
+export interface TopicReview {
+  topic: string
+  part: TopicPart
+  attempts: number
+  lastPracticedAt: string
+  lastBand?: number
+  intervalDays: number
+  dueAt: string
+  overdueDays: number
+}
+
+// Replays a topic's attempts in order and returns the interval after the latest one
+export function nextIntervalDays(attempts: TopicAttempt[]): number {
+  let interval = 0
+  let previousBand: number | undefined
+
+  for (const { band } of attempts) {
+    // Unscored attempts (evaluation unavailable) still count as exposure, not progress
+    if (band === undefined) {
+      interval = Math.max(interval, 1)
+      continue
+    }
+
+    const strength = band >= STRONG_BAND ? 'strong' : 'passing'
+    if (band < PASSING_BAND) {
+      interval = 1
+    } else if (interval <= 1) {
+      interval = FIRST_INTERVAL_DAYS[strength]
+    } else {
+      const improved = previousBand !== undefined && band > previousBand
+      interval = interval * GROWTH[strength] * (improved ? IMPROVEMENT_BONUS : 1)
+    }
+
+    interval = Math.min(Math.round(interval), MAX_INTERVAL_DAYS)
+    previousBand = band
+  }
+
+  return Math.max(interval, 1)
+}
+
+export function scheduleReview(topic: string, part: TopicPart, attempts: TopicAttempt[], now = Date.now()): TopicReview {
+  const last = attempts[attempts.length - 1]
+  const intervalDays = nextIntervalDays(attempts)
+  const dueAt = last.at + intervalDays * DAY_MS
+
+  return {
+    topic,
+    part,
+    attempts: attempts.length,
+    lastPracticedAt: new Date(last.at).toISOString(),
+    lastBand: [...attempts].reverse().find(attempt => attempt.band !== undefined)?.band,
+    intervalDays,
+    dueAt: new Date(dueAt).toISOString(),
+    overdueDays: Math.max(0, Math.floor((now - dueAt) / DAY_MS))
+  }
+}
+
+// Everything due today, most overdue and weakest first, plus what comes up next
+export async function getPracticeQueue(userId: string, limit = 5, now = Date.now()) {
+  const attempts = await getTopicAttempts(userId)
+
+  const reviews = ([1, 2] as const).flatMap(part =>
+    [...attempts[part]].map(([topic, list]) => scheduleReview(topic, part, list, now))
+  )
+
+  const due = reviews
+    .filter(review => new Date(review.dueAt).getTime() <= now)
+    .sort((a, b) => b.overdueDays - a.overdueDays || (a.lastBand ?? 0) - (b.lastBand ?? 0))
+
+  const upcoming = reviews
+    .filter(review => new Date(review.dueAt).getTime() > now)
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime())
+
+  return {
+    queue: due.slice(0, limit),
+    totalDue: due.length,
+    upcoming: upcoming.slice(0, limit)
+  }
+}
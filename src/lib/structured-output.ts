@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import type { ChatRequest } from '@/lib/providers';
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public issues?: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// Models often wrap JSON in prose or ``` fences; pull out the outermost object
+function extractJson(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : content;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  return start !== -1 && end > start ? candidate.slice(start, end + 1) : candidate;
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.errors.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`).join('; ');
+}
+
+export function parseStructuredOutput<T extends z.ZodTypeAny>(
+  content: string | null,
+  schema: T
+): { success: true; data: z.infer<T> } | { success: false; issues: string } {
+  if (!content) {
+    return { success: false, issues: 'empty response' };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJson(content));
+  } catch {
+    return { success: false, issues: 'response was not valid JSON' };
+  }
+
+  const result = schema.safeParse(json);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: describeIssues(result.error) };
+}
+
+// Sends the request, and if the reply doesn't match the schema, asks the
+// model once to repair its own output before giving up.
+export async function requestStructuredOutput<T extends z.ZodTypeAny>(
+  send: (request: ChatRequest) => Promise<string | null>,
+  request: ChatRequest,
+  schema: T
+): Promise<z.infer<T>> {
+  return completeStructuredOutput(send, request, await send(request), schema);
+}
+
+// For a reply that has already arrived, e.g. by streaming: parses it, repairing it once if needed
+export async function completeStructuredOutput<T extends z.ZodTypeAny>(
+  send: (request: ChatRequest) => Promise<string | null>,
+  request: ChatRequest,
+  content: string | null,
+  schema: T
+): Promise<z.infer<T>> {
+  const first = parseStructuredOutput(content, schema);
+  if (first.success) return first.data;
+
+  const repaired = await send({
+    ...request,
+    temperature: 0,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: content || '' },
+      {
+        role: 'user',
+        content: `Your previous reply could not be used (${first.issues}). Reply again with ONLY the corrected JSON object in the exact format requested, with no other text.`
+      }
+    ]
+  });
+  const second = parseStructuredOutput(repaired, schema);
+  if (second.success) return second.data;
+
+  throw new StructuredOutputError('AI response did not match the expected format', second.issues);
+}
@@ -0,0 +1,94 @@
+import part1Questions from '@/data/part_1_questions.json';
+import part2Questions from '@/data/part_2_questions.json';
+
+export type TestPart = 1 | 2 | 3;
+export type TestMode = TestPart | 'full';
+
+// A teacher-written entry from the question bank that a step is asked from
+export interface BankQuestion {
+  text: string;
+  bulletPoints: string[];
+  linkedPart3Questions: string[];
+}
+
+export interface TestStep {
+  part: TestPart;
+  // Part 1 topic or Part 2 cue card theme; Part 3 steps in a full test take the cue card at runtime
+  topic?: string;
+  // The Part 1 question, or the cue card that a Part 2 step shows and its Part 3 discussion follows
+  bankQuestion?: BankQuestion;
+}
+
+// The question as the examiner asks it; a cue card lists its prompts after "You should say:"
+export function formatBankQuestion({ text, bulletPoints }: BankQuestion): string {
+  if (bulletPoints.length === 0) return text;
+  const sentence = /[.?!]$/.test(text) ? text : `${text}.`;
+  return `${sentence} You should say: ${bulletPoints.map(point => point.replace(/[.,;]$/, '')).join(', ')}.`;
+}
+
+// Approximate time the examiner allows for each part in the real exam
+export const PART_TIME_LIMITS: Record<TestPart, number> = {
+  1: 5 * 60,
+  2: 4 * 60,
+  3: 5 * 60
+};
+
+// Part 2 long turn, in seconds: preparation, the "please wrap up" point and the hard stop
+export const PART_2_TIMING = {
+  preparation: 60,
+  warning: 105,
+  limit: 120
+} as const;
+
+const QUESTIONS_PER_PART_PRACTICE = 5;
+const PART_3_QUESTIONS_IN_FULL_TEST = 4;
+
+function pickDistinct<T>(items: T[], count: number): T[] {
+  const pool = [...items];
+  const picked: T[] = [];
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(Math.random() * pool.length), 1)[0]);
+  }
+  return picked;
+}
+
+// Returns topics in order of preference; the server ranks them against the
+// learner's history, and without it they are simply shuffled
+export type TopicPicker = (part: 1 | 2, count: number) => string[];
+
+export const pickRandomTopics: TopicPicker = (part, count) =>
+  pickDistinct(part === 1 ? part1Questions : part2Questions, count);
+
+// Spreads questions over topics so consecutive questions share a frame, as an examiner's do
+function spreadOverTopics(part: 1, topics: string[], questionCount: number): TestStep[] {
+  return Array.from({ length: questionCount }, (_, index) => ({
+    part,
+    topic: topics[Math.floor((index * topics.length) / questionCount)]
+  }));
+}
+
+export function buildTestPlan(mode: TestMode, pickTopics: TopicPicker = pickRandomTopics): TestStep[] {
+  if (mode === 1) {
+    return spreadOverTopics(1, pickTopics(1, 2), QUESTIONS_PER_PART_PRACTICE);
+  }
+
+  if (mode === 2) {
+    return pickTopics(2, QUESTIONS_PER_PART_PRACTICE).map(topic => ({ part: 2 as const, topic }));
+  }
+
+  // Part 3 practice discusses one cue card theme throughout, as the real exam does
+  const [cueCardTopic] = pickTopics(2, 1);
+  if (mode === 3) {
+    return Array.from({ length: QUESTIONS_PER_PART_PRACTICE }, () => ({ part: 3 as const, topic: cueCardTopic }));
+  }
+
+  // Full test: 4-5 Part 1 questions over two or three topics, one cue card, then its discussion
+  const topicCount = Math.random() < 0.5 ? 2 : 3;
+  const questionCount = Math.random() < 0.5 ? 4 : 5;
+
+  return [
+    ...spreadOverTopics(1, pickTopics(1, topicCount), questionCount),
+    { part: 2, topic: cueCardTopic },
+    ...Array.from({ length: PART_3_QUESTIONS_IN_FULL_TEST }, () => ({ part: 3 as const }))
+  ];
+}
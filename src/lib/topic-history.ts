@@ -0,0 +1,57 @@
+import { UserHistory } from '@/lib/models/UserHistory'
+
+// Per-topic practice record read from UserHistory. Part 3 discussions follow a
+// cue card, so they count towards that Part 2 topic.
+export type TopicPart = 1 | 2
+
+export interface TopicAttempt {
+  at: number // epoch ms of the latest answer on the topic in that session
+  band?: number // average band across the session's evaluated answers on the topic
+}
+
+export type TopicAttempts = Record<TopicPart, Map<string, TopicAttempt[]>>
+
+// Only recent practice matters for rotation and review, and it keeps the query small
+const HISTORY_LOOKBACK = 200
+
+export async function getTopicAttempts(userId: string): Promise<TopicAttempts> {
+  const attempts: TopicAttempts = { 1: new Map(), 2: new Map() }
+
+  const histories = await UserHistory.find({ userId })
+    .sort({ createdAt: -1 })
+    .limit(HISTORY_LOOKBACK)
+    .select('part topic questions.part questions.topic questions.timestamp questions.evaluation.bandScore createdAt')
+
+  for (const history of histories) {
+    const sessionAttempts = new Map<string, { part: TopicPart, at: number, bands: number[] }>()
+
+    for (const question of history.questions) {
+      const part = question.part ?? history.part
+      const topicPart: TopicPart | undefined = part === 1 ? 1 : part === 2 || part === 3 ? 2 : undefined
+      const topic = question.topic ?? (topicPart === 2 ? history.topic : undefined)
+      if (!topicPart || !topic) continue
+
+      const key = `${topicPart}:${topic}`
+      const entry = sessionAttempts.get(key) ?? { part: topicPart, at: 0, bands: [] }
+      entry.at = Math.max(entry.at, new Date(question.timestamp ?? history.createdAt).getTime())
+      if (question.evaluation?.bandScore) entry.bands.push(question.evaluation.bandScore)
+      sessionAttempts.set(key, entry)
+    }
+
+    sessionAttempts.forEach(({ part, at, bands }, key) => {
+      const topic = key.slice(key.indexOf(':') + 1)
+      const list = attempts[part].get(topic) ?? []
+      list.push({
+        at,
+        band: bands.length > 0 ? bands.reduce((sum, band) => sum + band, 0) / bands.length : undefined
+      })
+      attempts[part].set(topic, list)
+    })
+  }
+
+  // Oldest first, so callers can replay a topic's progress in order
+  attempts[1].forEach(list => list.sort((a, b) => a.at - b.at))
+  attempts[2].forEach(list => list.sort((a, b) => a.at - b.at))
+
+  return attempts
+}
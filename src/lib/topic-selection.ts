@@ -0,0 +1,146 @@
+import part1Questions from '@/data/part_1_questions.json'
+import part2Questions from '@/data/part_2_questions.json'
+import { Question, IQuestion } from '@/lib/models/Question'
+import { getTopicAttempts, type TopicAttempt, type TopicPart } from '@/lib/topic-history'
+import type { BankQuestion, TestPart, TestStep, TopicPicker } from '@/lib/test-plan'
+
+// How a test plan chooses topics: "fresh" prefers topics the learner has not
+// seen, or saw longest ago; "weak" first brings back topics they scored low on
+export type TopicStrategy = 'fresh' | 'weak'
+
+interface TopicStats {
+  lastSeen: number
+  bands: number[]
+}
+
+// Topics averaging below this band are worth repeating on purpose
+const WEAK_TOPIC_BAND = 6
+
+// The exam's topics change in January, May and September
+const SEASON_MONTHS = ['jan-apr', 'may-aug', 'sep-dec']
+
+function shuffle<T>(items: T[]): T[] {
+  const copy = [...items]
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    const swap = copy[i]
+    copy[i] = copy[j]
+    copy[j] = swap
+  }
+  return copy
+}
+
+// Season tag for the given date, in the form teachers tag questions with, e.g. "2025-may-aug"
+export function currentSeasonTag(date = new Date()): string {
+  return `${date.getFullYear()}-${SEASON_MONTHS[Math.floor(date.getMonth() / 4)]}`
+}
+
+// Active questions in the current season's set; untagged questions belong to every season
+function currentSetQuery(part: TopicPart) {
+  return { part, status: 'active', $or: [{ seasonTags: currentSeasonTag() }, { seasonTags: { $size: 0 } }] }
+}
+
+// Current question bank topics win over the bundled JSON lists once teachers have added some
+async function getTopicPool(part: TopicPart): Promise<string[]> {
+  const bankTopics: string[] = await Question.distinct('topic', currentSetQuery(part))
+  if (bankTopics.length > 0) return bankTopics
+  return part === 1 ? part1Questions : part2Questions
+}
+
+function toStats(attempts: Map<string, TopicAttempt[]>): Map<string, TopicStats> {
+  return new Map([...attempts].map(([topic, list]) => [topic, {
+    lastSeen: Math.max(...list.map(attempt => attempt.at)),
+    bands: list.flatMap(attempt => (attempt.band === undefined ? [] : [attempt.band]))
+  }]))
+}
+
+const averageBand = (bands: number[]) =>
+  bands.reduce((sum, band) => sum + band, 0) / bands.length
+
+export function rankTopics(pool: string[], stats: Map<string, TopicStats>, strategy: TopicStrategy): string[] {
+  const unseen = shuffle(pool.filter(topic => !stats.has(topic)))
+  const seen = pool
+    .flatMap(topic => {
+      const topicStats = stats.get(topic)
+      return topicStats ? [{ topic, ...topicStats }] : []
+    })
+    .sort((a, b) => a.lastSeen - b.lastSeen)
+  const fresh = [...unseen, ...seen.map(({ topic }) => topic)]
+
+  if (strategy === 'fresh') return fresh
+
+  const weak = seen
+    .filter(({ bands }) => bands.length > 0 && averageBand(bands) < WEAK_TOPIC_BAND)
+    .sort((a, b) => averageBand(a.bands) - averageBand(b.bands))
+    .map(({ topic }) => topic)
+
+  return [...weak, ...fresh.filter(topic => !weak.includes(topic))]
+}
+
+// Builds a picker over the learner's ranked topics for use with buildTestPlan;
+// a requested topic (e.g. one due for review) goes first for the part it belongs to
+export async function createHistoryTopicPicker(
+  userId: string,
+  strategy: TopicStrategy,
+  leadTopic?: { part: TopicPart, topic: string }
+): Promise<TopicPicker> {
+  const [attempts, part1Pool, part2Pool] = await Promise.all([
+    getTopicAttempts(userId),
+    getTopicPool(1),
+    getTopicPool(2)
+  ])
+
+  const ranked: Record<TopicPart, string[]> = {
+    1: rankTopics(part1Pool, toStats(attempts[1]), strategy),
+    2: rankTopics(part2Pool, toStats(attempts[2]), strategy)
+  }
+
+  if (leadTopic) {
+    ranked[leadTopic.part] = [leadTopic.topic, ...ranked[leadTopic.part].filter(topic => topic !== leadTopic.topic)]
+  }
+
+  return (part, count) => ranked[part].slice(0, count)
+}
+
+const toBankQuestion = (question: IQuestion): BankQuestion => ({
+  text: question.text,
+  bulletPoints: [...question.bulletPoints],
+  linkedPart3Questions: [...question.linkedPart3Questions]
+})
+
+// Current set questions on the given topics, shuffled and grouped by topic
+async function getBankQuestions(part: TopicPart, topics: string[]): Promise<Map<string, BankQuestion[]>> {
+  const grouped = new Map<string, BankQuestion[]>()
+  if (topics.length === 0) return grouped
+
+  const questions: IQuestion[] = await Question.find({ ...currentSetQuery(part), topic: { $in: topics } })
+  for (const question of shuffle(questions)) {
+    grouped.set(question.topic, [...(grouped.get(question.topic) ?? []), toBankQuestion(question)])
+  }
+  return grouped
+}
+
+// Gives planned steps a question from the bank where the current set has one on
+// their topic. Each Part 1 step gets its own question; a cue card is shared by its
+// Part 2 step and the Part 3 discussion that follows. Other steps are generated
+export async function attachBankQuestions(plan: TestStep[]): Promise<TestStep[]> {
+  const topicsOf = (parts: TestPart[]) =>
+    [...new Set(plan.flatMap(step => (parts.includes(step.part) && step.topic ? [step.topic] : [])))]
+  const [part1Entries, cueCards] = await Promise.all([
+    getBankQuestions(1, topicsOf([1])),
+    getBankQuestions(2, topicsOf([2, 3]))
+  ])
+
+  let lastCueCard: BankQuestion | undefined
+  return plan.map(step => {
+    let bankQuestion: BankQuestion | undefined
+    if (step.part === 1) {
+      bankQuestion = step.topic ? part1Entries.get(step.topic)?.shift() : undefined
+    } else {
+      // Part 3 steps in a full test have no topic and discuss the cue card before them
+      bankQuestion = step.topic ? cueCards.get(step.topic)?.[0] : lastCueCard
+      if (step.part === 2) lastCueCard = bankQuestion
+    }
+    return bankQuestion ? { ...step, bankQuestion } : step
+  })
+}
@@ -0,0 +1,104 @@
+import mongoose from 'mongoose'
+import { connectToDatabase } from '@/lib/mongodb'
+import { UsageEvent, type UsageEventKind } from '@/lib/models/UsageEvent'
+import { estimateCost, type OperationUsage, type UsageRecorder, type UsageSummary } from '@/lib/usage'
+
+// Stores what each AI call cost and whether the cache saved one, per user and
+// practice session. Writes are fire-and-forget: telemetry never fails a request.
+
+export interface UsageContext {
+  userId: string
+  sessionId?: string
+  keySource: 'organisation' | 'personal'
+  provider: string
+}
+
+function save(context: UsageContext, event: Record<string, unknown> & { kind: UsageEventKind, operation: string }) {
+  connectToDatabase()
+    .then(() => UsageEvent.create({ ...context, ...event }))
+    .catch(error => console.error('Failed to record usage:', error))
+}
+
+export function createUsageRecorder(context: UsageContext): UsageRecorder {
+  return {
+    recordCall(usage) {
+      save(context, {
+        kind: 'call',
+        operation: usage.operation ?? 'other',
+        modelName: usage.model,
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0,
+        characters: usage.characters ?? 0,
+        audioSeconds: usage.audioSeconds ?? 0,
+        costUsd: estimateCost(usage)
+      })
+    },
+    recordCacheLookup(operation, hit) {
+      save(context, { kind: hit ? 'cache-hit' : 'cache-miss', operation })
+    }
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export async function getUsageSummary(userId: string, days: number): Promise<UsageSummary> {
+  const match = {
+    userId: new mongoose.Types.ObjectId(userId),
+    createdAt: { $gte: new Date(Date.now() - days * DAY_MS) }
+  }
+  const isCall = { $eq: ['$kind', 'call'] }
+
+  const [operations, sessions, daily] = await Promise.all([
+    UsageEvent.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: '$operation',
+          calls: { $sum: { $cond: [isCall, 1, 0] } },
+          cacheHits: { $sum: { $cond: [{ $eq: ['$kind', 'cache-hit'] }, 1, 0] } },
+          cacheMisses: { $sum: { $cond: [{ $eq: ['$kind', 'cache-miss'] }, 1, 0] } },
+          inputTokens: { $sum: '$inputTokens' },
+          outputTokens: { $sum: '$outputTokens' },
+          costUsd: { $sum: '$costUsd' }
+        }
+      },
+      { $sort: { costUsd: -1 } }
+    ]),
+    UsageEvent.aggregate([
+      { $match: { ...match, kind: 'call', sessionId: { $exists: true } } },
+      { $group: { _id: '$sessionId', startedAt: { $min: '$createdAt' }, calls: { $sum: 1 }, costUsd: { $sum: '$costUsd' } } },
+      { $sort: { startedAt: -1 } },
+      { $limit: 20 }
+    ]),
+    UsageEvent.aggregate([
+      { $match: { ...match, kind: 'call' } },
+      {
+        $group: {
+          _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } },
+          calls: { $sum: 1 },
+          costUsd: { $sum: '$costUsd' }
+        }
+      },
+      { $sort: { _id: 1 } }
+    ])
+  ])
+
+  const byOperation: OperationUsage[] = operations.map(({ _id, ...usage }) => {
+    const lookups = usage.cacheHits + usage.cacheMisses
+    return { operation: _id, ...usage, hitRate: lookups > 0 ? usage.cacheHits / lookups : 0 }
+  })
+
+  return {
+    days,
+    totalCostUsd: byOperation.reduce((sum, usage) => sum + usage.costUsd, 0),
+    totalCalls: byOperation.reduce((sum, usage) => sum + usage.calls, 0),
+    byOperation,
+    bySession: sessions.map(({ _id, startedAt, calls, costUsd }) => ({
+      sessionId: _id,
+      startedAt: new Date(startedAt).toISOString(),
+      calls,
+      costUsd
+    })),
+    byDay: daily.map(({ _id, calls, costUsd }) => ({ date: _id, calls, costUsd }))
+  }
+}
@@ -0,0 +1,126 @@
+import type { ProviderUsage, UsageOperation } from '@/lib/providers';
+
+// Price table and usage types shared by the AI services, the usage recorder
+// and the usage page. Prices are USD list prices; unknown models (e.g. a
+// self-hosted openai-compatible server) are treated as free.
+
+export type { UsageOperation };
+
+interface ChatPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export const CHAT_PRICES: Record<string, ChatPrice> = {
+  'gpt-3.5-turbo': { inputPerMillion: 1.5, outputPerMillion: 2 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4': { inputPerMillion: 30, outputPerMillion: 60 }
+};
+
+export const TTS_PRICES_PER_MILLION_CHARS: Record<string, number> = {
+  'tts-1': 15,
+  'tts-1-hd': 30
+};
+
+export const STT_PRICES_PER_MINUTE: Record<string, number> = {
+  'whisper-1': 0.006
+};
+
+export function estimateCost({ model, inputTokens = 0, outputTokens = 0, characters = 0, audioSeconds = 0 }: ProviderUsage): number {
+  const chat = CHAT_PRICES[model];
+  if (chat) {
+    return (inputTokens * chat.inputPerMillion + outputTokens * chat.outputPerMillion) / 1_000_000;
+  }
+  if (model in TTS_PRICES_PER_MILLION_CHARS) {
+    return (characters * TTS_PRICES_PER_MILLION_CHARS[model]) / 1_000_000;
+  }
+  if (model in STT_PRICES_PER_MINUTE) {
+    return (audioSeconds / 60) * STT_PRICES_PER_MINUTE[model];
+  }
+  return 0;
+}
+
+// Receives every provider call and cache lookup made by a service
+export interface UsageRecorder {
+  recordCall(usage: ProviderUsage): void;
+  recordCacheLookup(operation: UsageOperation, hit: boolean): void;
+}
+
+export interface OperationUsage {
+  operation: UsageOperation;
+  calls: number;
+  cacheHits: number;
+  cacheMisses: number;
+  hitRate: number; // 0-1 over cache lookups
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface SessionUsage {
+  sessionId: string;
+  startedAt: string;
+  calls: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  days: number;
+  totalCostUsd: number;
+  totalCalls: number;
+  byOperation: OperationUsage[];
+  bySession: SessionUsage[];
+  byDay: Array<{ date: string; costUsd: number; calls: number }>;
+}
+
+export const formatUsd = (amount: number) =>
+  amount >= 0.01 ? `$${amount.toFixed(2)}` : `$${amount.toFixed(4)}`;
+
+// Spend caps. Near a cap the learner is warned; at the cap the services drop
+// to cheaper models and refuse calls a session can do without.
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface SpendLimits {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+export interface BudgetStatus {
+  keySource: 'organisation' | 'personal';
+  limits: SpendLimits;
+  spent: { dailyUsd: number; monthlyUsd: number };
+  // The more severe of the learner's own level and, on the organisation key, the key-wide level
+  level: BudgetLevel;
+  // Everyone's spend on the organisation key against its total caps; only set for that key
+  organisation?: {
+    limits: SpendLimits;
+    spent: { dailyUsd: number; monthlyUsd: number };
+    level: BudgetLevel;
+  };
+}
+
+// Share of a cap at which the warning starts
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export function getBudgetLevel(spent: BudgetStatus['spent'], limits: SpendLimits): BudgetLevel {
+  const ratios = [
+    limits.dailyUsd ? spent.dailyUsd / limits.dailyUsd : 0,
+    limits.monthlyUsd ? spent.monthlyUsd / limits.monthlyUsd : 0
+  ];
+  const highest = Math.max(...ratios);
+  if (highest >= 1) return 'exceeded';
+  if (highest >= BUDGET_WARNING_RATIO) return 'warning';
+  return 'ok';
+}
+
+const BUDGET_LEVELS: BudgetLevel[] = ['ok', 'warning', 'exceeded'];
+
+export const mostSevereBudgetLevel = (...levels: BudgetLevel[]): BudgetLevel =>
+  BUDGET_LEVELS[Math.max(...levels.map(level => BUDGET_LEVELS.indexOf(level)))];
+
+export class BudgetExceededError extends Error {
+  constructor(feature: string) {
+    super(`Spend limit reached: ${feature} are paused until the limit resets. Practice and feedback continue on cheaper models.`);
+    this.name = 'BudgetExceededError';
+  }
+}
@@ -16,6 +16,33 @@ export default withAuth(
         if (req.nextUrl.pathname.startsWith('/api/user-history')) {
           return !!token
         }
+        if (req.nextUrl.pathname.startsWith('/api/ai')) {
+          return !!token
+        }
+        if (req.nextUrl.pathname.startsWith('/api/api-keys')) {
+          return !!token
+        }
+        if (req.nextUrl.pathname.startsWith('/api/questions')) {
+          return !!token
+        }
+        if (req.nextUrl.pathname.startsWith('/api/test-plan')) {
+          return !!token
+        }
+        if (req.nextUrl.pathname.startsWith('/api/practice-queue')) {
+          return !!token
+        }
+        if (req.nextUrl.pathname.startsWith('/api/drills')) {
+          return !!token
+        }
+        if (req.nextUrl.pathname.startsWith('/api/usage')) {
+          return !!token
+        }
+        if (req.nextUrl.pathname.startsWith('/api/budget')) {
+          return !!token
+        }
+        if (req.nextUrl.pathname.startsWith('/api/settings')) {
+          return !!token
+        }
         
         // Protect dashboard and other authenticated pages
         if (req.nextUrl.pathname.startsWith('/dashboard')) {
@@ -32,6 +59,15 @@ export const config = {
   matcher: [
     '/api/model-answers/:path*',
     '/api/user-history/:path*',
+    '/api/ai/:path*',
+    '/api/api-keys/:path*',
+    '/api/questions/:path*',
+    '/api/test-plan/:path*',
+    '/api/practice-queue/:path*',
+    '/api/drills/:path*',
+    '/api/usage/:path*',
+    '/api/budget/:path*',
+    '/api/settings/:path*',
     '/dashboard/:path*'
   ]
 }
@@ -11,6 +11,12 @@ declare global {
       MONGODB_URI: string
       NEXTAUTH_SECRET: string
       NEXTAUTH_URL: string
+      OPENAI_API_KEY?: string
+      API_KEY_ENCRYPTION_SECRET?: string
+      AI_PROVIDER?: 'openai' | 'openai-compatible' | 'mock'
+      AI_BASE_URL?: string
+      AI_CHAT_MODEL?: string
+      AI_MOCK_ERROR?: 'unauthorized' | 'rate_limit' | 'insufficient_quota'
     }
   }
 }
@@ -7,6 +7,8 @@ declare module "next-auth" {
       name?: string | null
       email?: string | null
       image?: string | null
+      // For showing admin screens only; routes re-check the role in the database
+      role?: 'user' | 'admin'
     }
   }
 
@@ -15,11 +17,13 @@ declare module "next-auth" {
     name?: string | null
     email?: string | null
     image?: string | null
+    role?: 'user' | 'admin'
   }
 }
 
 declare module "next-auth/jwt" {
   interface JWT {
     id: string
+    role?: 'user' | 'admin'
   }
 }